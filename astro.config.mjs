@@ -2,12 +2,41 @@
 import { defineConfig } from 'astro/config';
 import sitemap from '@astrojs/sitemap';
 import mdx from '@astrojs/mdx';
+import notionBuildReport from './src/integrations/notion-build-report';
+import notionAssets from './src/integrations/notion-assets';
+import contentIntegrity from './src/integrations/content-integrity';
+import notionExport from './src/integrations/notion-export';
+import { isRedirectSource } from './src/lib/redirects';
+import { isDraftPage } from './src/lib/preview';
+import { getLastModified } from './src/lib/lastmod';
+import { DEFAULT_LOCALE, LOCALES, isUntranslatedPage } from './src/lib/i18n';
 
 export default defineConfig({
   site: 'https://aprendenotion.com',
-  integrations: [mdx(), sitemap()],
+  integrations: [
+    mdx(),
+    // Las URLs que solo redirigen (src/lib/redirects.ts), los borradores
+    // del modo preview (src/lib/preview.ts) y las lecciones sin traducir
+    // (src/lib/i18n.ts) no van al sitemap. <lastmod>: la última edición en
+    // Notion (src/lib/lastmod.ts)
+    sitemap({
+      filter: (page) => {
+        const { pathname } = new URL(page);
+        return !isRedirectSource(pathname) && !isDraftPage(pathname) && !isUntranslatedPage(pathname);
+      },
+      serialize: (item) => {
+        const lastmod = getLastModified(new URL(item.url).pathname);
+        return lastmod ? { ...item, lastmod } : item;
+      },
+    }),
+    notionAssets(),
+    notionBuildReport(),
+    contentIntegrity(),
+    notionExport({ dir: process.env.NOTION_EXPORT_DIR }),
+  ],
+  // El español va sin prefijo; el resto, en /<idioma>/ (src/pages/[...lang]/)
   i18n: {
-    defaultLocale: 'es',
-    locales: ['es'],
+    defaultLocale: DEFAULT_LOCALE,
+    locales: [...LOCALES],
   },
 });
@@ -0,0 +1,291 @@
+// ---------------------------------------------------------------------------
+// Sample Notion fixtures — `npm run fixtures:sample`
+// ---------------------------------------------------------------------------
+// Writes a small synthetic workspace to notion-fixtures/ in the same format
+// record mode uses: three lessons in two modules, one blog post, and blocks
+// of every common type (lists, toggles, tables, code, equations, a video with
+// chapters, a formula playground). With it, `npm run build:replay` builds the
+// whole site with no token or network, e.g. in CI.
+//
+// The requests are the ones src/lib/notion.ts makes, and the files go through
+// writeFixture(), so their names always match what a replay build looks up.
+// Recording a real workspace (NOTION_MODE=record) replaces the sample: delete
+// notion-fixtures/ first so the two don't mix.
+// ---------------------------------------------------------------------------
+
+import * as fs from 'node:fs';
+import { FIXTURES_DIR, recordEnv, writeFixture } from '../src/lib/notion-fixtures';
+
+const DATABASES = {
+  NOTION_LESSONS_DB: '5a3f0c1e-7b2d-4e8a-9c61-0d4b2e7f1a01',
+  NOTION_BLOG_DB: '5a3f0c1e-7b2d-4e8a-9c61-0d4b2e7f1a02',
+};
+const EDITED = '2026-10-01T09:00:00.000Z';
+const PUBLISHED = { property: 'Estado', select: { equals: 'Publicado' } };
+
+// ---------------------------------------------------------------------------
+// Builders — just the fields the site reads, shaped like API responses
+// ---------------------------------------------------------------------------
+
+type Json = Record<string, any>;
+type Annotations = Partial<{ bold: boolean; italic: boolean; code: boolean; href: string }>;
+
+let nextId = 0;
+/** Stable ids, so regenerating the sample gives the same files. */
+function id(): string {
+  nextId++;
+  return `9c2d4e6f-1a3b-4c5d-8e7f-${String(nextId).padStart(12, '0')}`;
+}
+
+function text(content: string, opts: Annotations = {}): Json {
+  return {
+    type: 'text',
+    text: { content, link: opts.href ? { url: opts.href } : null },
+    annotations: {
+      bold: Boolean(opts.bold),
+      italic: Boolean(opts.italic),
+      strikethrough: false,
+      underline: false,
+      code: Boolean(opts.code),
+      color: 'default',
+    },
+    plain_text: content,
+    href: opts.href ?? null,
+  };
+}
+
+function equation(expression: string): Json {
+  return {
+    type: 'equation',
+    equation: { expression },
+    annotations: { bold: false, italic: false, strikethrough: false, underline: false, code: false, color: 'default' },
+    plain_text: expression,
+    href: null,
+  };
+}
+
+const rich = (...parts: (string | Json)[]) => parts.map((part) => (typeof part === 'string' ? text(part) : part));
+
+interface SampleBlock {
+  block: Json;
+  children: SampleBlock[];
+}
+
+function block(type: string, data: Json, children: SampleBlock[] = []): SampleBlock {
+  return {
+    block: {
+      object: 'block',
+      id: id(),
+      type,
+      created_time: EDITED,
+      last_edited_time: EDITED,
+      has_children: children.length > 0,
+      archived: false,
+      in_trash: false,
+      [type]: data,
+    },
+    children,
+  };
+}
+
+const paragraph = (...parts: (string | Json)[]) => block('paragraph', { rich_text: rich(...parts), color: 'default' });
+const heading = (level: 1 | 2 | 3, title: string) =>
+  block(`heading_${level}`, { rich_text: rich(title), color: 'default', is_toggleable: false });
+const bullet = (...parts: (string | Json)[]) =>
+  block('bulleted_list_item', { rich_text: rich(...parts), color: 'default' });
+const numbered = (...parts: (string | Json)[]) =>
+  block('numbered_list_item', { rich_text: rich(...parts), color: 'default' });
+const code = (language: string, source: string, caption = '') =>
+  block('code', { rich_text: rich(source), caption: caption ? rich(caption) : [], language });
+
+function table(rows: string[][]): SampleBlock {
+  return block(
+    'table',
+    { table_width: rows[0].length, has_column_header: true, has_row_header: false },
+    rows.map((cells) => block('table_row', { cells: cells.map((cell) => rich(cell)) })),
+  );
+}
+
+function property(type: string, value: unknown): Json {
+  return { id: id().slice(-4), type, [type]: value };
+}
+
+const select = (name: string) => property('select', { id: id().slice(-4), name, color: 'default' });
+
+interface SamplePage {
+  page: Json;
+  blocks: SampleBlock[];
+}
+
+function page(database: string, properties: Json, emoji: string, blocks: SampleBlock[]): SamplePage {
+  return {
+    page: {
+      object: 'page',
+      id: id(),
+      created_time: EDITED,
+      last_edited_time: EDITED,
+      archived: false,
+      in_trash: false,
+      icon: { type: 'emoji', emoji },
+      cover: null,
+      parent: { type: 'data_source_id', data_source_id: database },
+      url: 'https://www.notion.so/sample',
+      public_url: null,
+      properties,
+    },
+    blocks,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Content
+// ---------------------------------------------------------------------------
+
+function lesson(
+  title: string,
+  fields: { slug: string; order: number; module: string; description: string },
+  emoji: string,
+  blocks: SampleBlock[],
+): SamplePage {
+  return page(
+    DATABASES.NOTION_LESSONS_DB,
+    {
+      Name: property('title', rich(title)),
+      Slug: property('rich_text', rich(fields.slug)),
+      Descripción: property('rich_text', rich(fields.description)),
+      Orden: property('number', fields.order),
+      Módulo: select(fields.module),
+      Estado: select('Publicado'),
+      Idioma: property('select', null),
+      Traducción: property('relation', []),
+      Video: property('url', null),
+      Capítulos: property('rich_text', []),
+      'Slugs anteriores': property('rich_text', []),
+    },
+    emoji,
+    blocks,
+  );
+}
+
+const lessons: SamplePage[] = [
+  lesson(
+    'Fundamentos',
+    { slug: 'fundamentos', order: 1, module: 'Fundamentos', description: 'Lo básico de Notion: páginas, bloques y el espacio de trabajo.' },
+    '🧱',
+    [
+      paragraph('En este módulo vas a conocer las piezas con las que se construye todo en Notion.'),
+      heading(2, 'Qué vas a aprender'),
+      bullet('Cómo se organiza tu ', text('espacio de trabajo', { bold: true })),
+      bullet('Qué es un bloque y cómo se ', text('transforma', { italic: true }), ' en otro'),
+    ],
+  ),
+  lesson(
+    'Páginas y bloques',
+    { slug: 'paginas-bloques', order: 2, module: 'Fundamentos', description: 'Todo en Notion es un bloque: texto, listas, tablas y más.' },
+    '📄',
+    [
+      paragraph('Cada cosa que escribes en una página es un bloque. Pulsa ', text('/', { code: true }), ' para ver todos.'),
+      heading(2, 'Dándole estilo al texto'),
+      paragraph('Negrita, cursiva y ', text('enlaces', { href: 'https://www.notion.so/help' }), ' funcionan como en cualquier editor.'),
+      block('callout', { rich_text: rich('Consejo: selecciona texto para ver el menú de formato.'), icon: { type: 'emoji', emoji: '💡' }, color: 'gray_background' }),
+      heading(2, 'Bloques básicos'),
+      block('to_do', { rich_text: rich('Crear una página'), checked: true, color: 'default' }),
+      block('to_do', { rich_text: rich('Añadir una lista de tareas'), checked: false, color: 'default' }),
+      block('toggle', { rich_text: rich('¿Y los bloques anidados?'), color: 'default' }, [
+        paragraph('Arrastra un bloque a la derecha de otro para anidarlo.'),
+      ]),
+      block('quote', { rich_text: rich('Un bloque puede convertirse en cualquier otro.'), color: 'default' }),
+      heading(2, 'Los bloques son fluidos'),
+      table([
+        ['Bloque', 'Atajo'],
+        ['Título', '#'],
+        ['Lista', '-'],
+        ['Casilla', '[]'],
+      ]),
+      block('divider', {}),
+      heading(2, 'Páginas y subpáginas'),
+      paragraph('Una página dentro de otra es una subpágina, y aparece en la barra lateral.'),
+    ],
+  ),
+  lesson(
+    'Introducción a las fórmulas',
+    { slug: 'introduccion-formulas', order: 3, module: 'Fórmulas', description: 'Calcula valores a partir de las propiedades de tu base de datos.' },
+    '🧮',
+    [
+      paragraph('Una fórmula calcula un valor por cada página, como ', equation('\\frac{a}{b}'), ' en una hoja de cálculo.'),
+      block('video', {
+        type: 'external',
+        external: { url: 'https://www.youtube.com/watch?v=6FLHs29zsUM' },
+        caption: rich('Fórmulas en Notion\n0:00 Introducción\n1:30 La primera fórmula'),
+      }),
+      heading(2, 'Prueba tú'),
+      table([
+        ['Precio', 'Cantidad'],
+        ['12', '3'],
+        ['5', '10'],
+      ]),
+      code('notion formula', 'prop("Precio") * prop("Cantidad")', 'Playground: total por fila'),
+      block('equation', { expression: '\\text{Total} = \\sum_{i} \\text{Precio}_i \\times \\text{Cantidad}_i' }),
+      heading(3, 'Siguientes pasos'),
+      numbered('Abre una base de datos'),
+      numbered('Añade una propiedad de tipo fórmula'),
+    ],
+  ),
+];
+
+const posts: SamplePage[] = [
+  page(
+    DATABASES.NOTION_BLOG_DB,
+    {
+      Name: property('title', rich('Cómo organizar tus tareas en Notion')),
+      Slug: property('rich_text', rich('organizar-tareas-notion')),
+      Descripción: property('rich_text', rich('Un sistema sencillo de tareas con una base de datos y dos vistas.')),
+      Fecha: property('date', { start: '2026-09-15', end: null, time_zone: null }),
+      Categoría: select('Tutorial'),
+      Estado: select('Publicado'),
+      Idioma: property('select', null),
+      Traducción: property('relation', []),
+      'Slugs anteriores': property('rich_text', []),
+    },
+    '✅',
+    [
+      paragraph('Con una base de datos y dos vistas tienes un gestor de tareas completo.'),
+      heading(2, 'La base de datos'),
+      numbered('Crea una base de datos con las propiedades ', text('Estado', { code: true }), ' y ', text('Fecha', { code: true })),
+      numbered('Añade una vista de tablero agrupada por estado'),
+      code('javascript', 'if (prop("Fecha") < now()) "Atrasada"'),
+    ],
+  ),
+];
+
+// ---------------------------------------------------------------------------
+// Write
+// ---------------------------------------------------------------------------
+
+function writeQuery(dataSourceId: string, sorts: unknown[], pages: SamplePage[]) {
+  writeFixture(
+    'dataSources.query',
+    { data_source_id: dataSourceId, filter: PUBLISHED, sorts, page_size: 100 },
+    { object: 'list', results: pages.map((p) => p.page), next_cursor: null, has_more: false },
+  );
+}
+
+function writeBlocks(blockId: string, blocks: SampleBlock[]) {
+  writeFixture(
+    'blocks.children.list',
+    { block_id: blockId, page_size: 100 },
+    { object: 'list', results: blocks.map((b) => b.block), next_cursor: null, has_more: false },
+  );
+  for (const child of blocks) {
+    if (child.children.length) writeBlocks(child.block.id, child.children);
+  }
+}
+
+fs.rmSync(FIXTURES_DIR, { recursive: true, force: true });
+for (const [name, value] of Object.entries(DATABASES)) recordEnv(name, value);
+
+writeQuery(DATABASES.NOTION_LESSONS_DB, [{ property: 'Orden', direction: 'ascending' }], lessons);
+writeQuery(DATABASES.NOTION_BLOG_DB, [{ property: 'Fecha', direction: 'descending' }], posts);
+for (const sample of [...lessons, ...posts]) writeBlocks(sample.page.id, sample.blocks);
+
+console.log(`Wrote ${lessons.length} lessons and ${posts.length} posts to ${FIXTURES_DIR}`);
@@ -0,0 +1,145 @@
+// ---------------------------------------------------------------------------
+// Notion scheduler replay — `npm run scheduler:replay`
+// ---------------------------------------------------------------------------
+// Runs the request scheduler against a local stand-in for the Notion API,
+// with no Notion account or network: a real @notionhq/client points at a
+// local server (the same thing NOTION_BASE_URL does for a build) that answers
+// with 429 + Retry-After, 5xx and validation errors on cue. Checks that the
+// right requests are retried, that Retry-After and the concurrency limit are
+// respected, and what the request stats say. Exits with 1 if anything is off.
+// ---------------------------------------------------------------------------
+
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Client, LogLevel } from '@notionhq/client';
+import { createScheduler, getRequestStats, resetRequestStats, type RequestStats } from '../src/lib/notion-scheduler';
+
+const CONCURRENCY = 2;
+const MAX_RETRIES = 2;
+const RETRY_AFTER_S = 1;
+const RESPONSE_MS = 50;
+
+// ---------------------------------------------------------------------------
+// Stand-in
+// ---------------------------------------------------------------------------
+
+// The block id picks the script: one answer per attempt, the last one repeats
+type Answer = 'ok' | 'rate-limited' | 'bad-gateway' | 'server-error' | 'validation';
+const SCRIPTS: Record<string, Answer[]> = {
+  ok: ['ok'],
+  throttled: ['rate-limited', 'ok'],
+  flaky: ['bad-gateway', 'server-error', 'ok'],
+  down: ['server-error'],
+  invalid: ['validation'],
+};
+
+const attempts = new Map<string, number>();
+const startedAt = new Map<string, number[]>();
+let inFlight = 0;
+let maxInFlight = 0;
+
+function notionError(res: http.ServerResponse, status: number, code: string, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ object: 'error', status, code, message: code }));
+}
+
+const server = http.createServer((req, res) => {
+  // /v1/blocks/<id>/children — ids are `<script>` or `<script>-<n>`
+  const id = req.url?.match(/^\/v1\/blocks\/([^/]+)\/children/)?.[1] ?? '';
+  const script = SCRIPTS[id.replace(/-\d+$/, '')] ?? ['ok'];
+  const attempt = attempts.get(id) ?? 0;
+  attempts.set(id, attempt + 1);
+  startedAt.set(id, [...(startedAt.get(id) ?? []), Date.now()]);
+
+  inFlight++;
+  maxInFlight = Math.max(maxInFlight, inFlight);
+  setTimeout(() => {
+    inFlight--;
+    switch (script[Math.min(attempt, script.length - 1)]) {
+      case 'rate-limited':
+        return notionError(res, 429, 'rate_limited', { 'Retry-After': String(RETRY_AFTER_S) });
+      case 'bad-gateway':
+        // What a proxy in front of the API sends: not JSON
+        res.writeHead(502, { 'Content-Type': 'text/html' });
+        return res.end('<html><body>502 Bad Gateway</body></html>');
+      case 'server-error':
+        return notionError(res, 500, 'internal_server_error');
+      case 'validation':
+        return notionError(res, 400, 'validation_error');
+      default:
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ object: 'list', results: [], next_cursor: null, has_more: false }));
+    }
+  }, RESPONSE_MS);
+});
+
+const port = await new Promise<number>((resolve) =>
+  server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port)),
+);
+const client = new Client({ auth: 'secret_replay', baseUrl: `http://127.0.0.1:${port}`, timeoutMs: 5_000, logLevel: LogLevel.ERROR });
+const scheduler = createScheduler({
+  concurrency: CONCURRENCY,
+  requestsPerSecond: 100,
+  maxRetries: MAX_RETRIES,
+  baseDelayMs: 20,
+});
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+const failures: string[] = [];
+function check(ok: boolean, label: string) {
+  console.log(`${ok ? '✓' : '✗'} ${label}`);
+  if (!ok) failures.push(label);
+}
+
+/** Result of one scheduled request and the stats it added. */
+async function run(blockId: string): Promise<{ ok: boolean; stats: RequestStats }> {
+  resetRequestStats();
+  const ok = await scheduler
+    .run(() => client.blocks.children.list({ block_id: blockId }))
+    .then(() => true, () => false);
+  return { ok, stats: { ...getRequestStats() } };
+}
+
+try {
+  const plain = await run('ok');
+  check(plain.ok && plain.stats.requests === 1 && plain.stats.retries === 0, 'a plain request goes through once');
+
+  const throttled = await run('throttled');
+  check(throttled.ok, '429 is retried until it succeeds');
+  check(throttled.stats.rateLimited === 1 && throttled.stats.retries === 1, '…counted as one rate-limited retry');
+  const [first, second] = startedAt.get('throttled') ?? [];
+  check(second - first >= RETRY_AFTER_S * 1000, `…after waiting the ${RETRY_AFTER_S}s of Retry-After`);
+
+  const flaky = await run('flaky');
+  check(flaky.ok && flaky.stats.retries === 2 && flaky.stats.rateLimited === 0, '502 (HTML) and 500 are retried');
+
+  const down = await run('down');
+  check(!down.ok && attempts.get('down') === MAX_RETRIES + 1, `a server that keeps failing is tried ${MAX_RETRIES + 1} times`);
+  check(down.stats.failures === 1 && down.stats.retries === MAX_RETRIES, '…then counted as one failure');
+
+  const invalid = await run('invalid');
+  check(!invalid.ok && attempts.get('invalid') === 1 && invalid.stats.retries === 0, '400 is not retried');
+
+  // A burst with one throttled request in the middle
+  resetRequestStats();
+  maxInFlight = 0;
+  const burst = ['throttled-1', ...Array.from({ length: 9 }, (_, i) => `ok-${i + 1}`)];
+  const results = await Promise.allSettled(
+    burst.map((id) => scheduler.run(() => client.blocks.children.list({ block_id: id }))),
+  );
+  check(results.every((r) => r.status === 'fulfilled'), 'a burst of 10 requests all succeed');
+  check(maxInFlight <= CONCURRENCY, `…with at most ${CONCURRENCY} in flight (saw ${maxInFlight})`);
+  const stats = getRequestStats();
+  check(stats.requests === 11 && stats.rateLimited === 1, '…in 11 requests, one of them rate-limited');
+} finally {
+  server.close();
+}
+
+if (failures.length) {
+  console.error(`\n${failures.length} check(s) failed`);
+  process.exit(1);
+}
+console.log('\nAll checks passed');
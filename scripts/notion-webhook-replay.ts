@@ -0,0 +1,165 @@
+// ---------------------------------------------------------------------------
+// Notion webhook replay — `npm run webhook:replay`
+// ---------------------------------------------------------------------------
+// End-to-end run of the webhook receiver against a local stand-in, with no
+// Notion account or network: the sample payloads in scripts/webhook-samples/
+// are signed and posted to a real webhook server, which works on a throwaway
+// `.notion-cache/` and calls a local rebuild hook that records what it gets.
+// Exits with 1 if the cache or the rebuild request aren't what they should be.
+// ---------------------------------------------------------------------------
+
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+const SAMPLES_DIR = path.join(import.meta.dirname, 'webhook-samples');
+const SECRET = 'secret_replay-verification-token';
+const DEBOUNCE_MS = 1000;
+
+// Ids used in the samples
+const DATABASES = {
+  lesson: '2f1c0a9e-4b7d-4c1e-9a51-7c3e0b6d1a01',
+  post: '2f1c0a9e-4b7d-4c1e-9a51-7c3e0b6d1a02',
+  module: '2f1c0a9e-4b7d-4c1e-9a51-7c3e0b6d1a03',
+};
+const PAGES = {
+  lesson: '8d0e5b7a-1c2f-4e3a-b6d9-0f4a2c1e5b11',
+  post: '8d0e5b7a-1c2f-4e3a-b6d9-0f4a2c1e5b22',
+  module: '8d0e5b7a-1c2f-4e3a-b6d9-0f4a2c1e5b33',
+  unrelated: '8d0e5b7a-1c2f-4e3a-b6d9-0f4a2c1e5b44',
+};
+
+// The cache and the slug history are resolved from the working directory
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'notion-webhook-'));
+process.chdir(workDir);
+fs.mkdirSync(path.join(workDir, 'src', 'data'), { recursive: true });
+fs.writeFileSync(
+  path.join(workDir, 'src', 'data', 'slug-history.json'),
+  JSON.stringify({ [PAGES.lesson]: ['crear-base-de-datos', 'bases-de-datos'], [PAGES.post]: ['plantillas-gratis'] }),
+);
+
+const { CACHE_DIR, queryCacheKey, setCachedBlocks, setCachedQuery } = await import('../src/lib/notion-cache');
+const { createRebuildQueue, createWebhookServer, signPayload } = await import('../src/lib/notion-webhook');
+
+// ---------------------------------------------------------------------------
+// Stand-ins
+// ---------------------------------------------------------------------------
+
+// A cache as a build would leave it: one query per database, one tree per page
+const edited = '2026-10-18T08:00:00.000Z';
+for (const kind of ['lesson', 'post', 'module'] as const) {
+  setCachedQuery(queryCacheKey(DATABASES[kind], {}), [{ id: PAGES[kind], last_edited_time: edited }]);
+  setCachedBlocks(PAGES[kind], []);
+}
+setCachedBlocks(PAGES.unrelated, []);
+
+const rebuilds: { trigger: string; changes: { pageId: string; kind: string; slugs: string[]; events: string[] }[] }[] = [];
+const hook = http.createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => {
+    rebuilds.push(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+    res.writeHead(201).end();
+  });
+});
+
+const quiet = { info: () => {}, warn: () => {}, error: (message: string) => console.error(message) };
+const listen = (server: http.Server) =>
+  new Promise<number>((resolve) => server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port)));
+
+const hookPort = await listen(hook);
+const queue = createRebuildQueue({
+  hookUrl: `http://127.0.0.1:${hookPort}/build`,
+  debounceMs: DEBOUNCE_MS,
+  maxWaitMs: DEBOUNCE_MS * 10,
+  logger: quiet,
+});
+const webhook = createWebhookServer({ secret: SECRET, databases: DATABASES, queue, logger: quiet });
+const webhookPort = await listen(webhook);
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+const failures: string[] = [];
+function check(ok: boolean, label: string) {
+  console.log(`${ok ? '✓' : '✗'} ${label}`);
+  if (!ok) failures.push(label);
+}
+
+async function send(sample: string, signature?: string) {
+  const body = fs.readFileSync(path.join(SAMPLES_DIR, `${sample}.json`), 'utf-8');
+  const response = await fetch(`http://127.0.0.1:${webhookPort}/notion-webhook`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Notion-Signature': signature ?? signPayload(body, SECRET) },
+    body,
+  });
+  return { status: response.status, body: (await response.json()) as Record<string, unknown> };
+}
+
+const cached = (key: string) => fs.existsSync(path.join(CACHE_DIR, `${key}.json`));
+const cachedQueries = (kind: keyof typeof DATABASES) =>
+  fs.readdirSync(CACHE_DIR).some((file) => file.startsWith(`db-${DATABASES[kind]}-`));
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+try {
+  check((await send('verification', '')).status === 401, 'an unsigned verification request is rejected once the secret is set');
+  check((await send('verification')).status === 200, '…a signed one is accepted');
+  const oversized = await fetch(`http://127.0.0.1:${webhookPort}/notion-webhook`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Notion-Signature': 'sha256=0000' },
+    body: 'x'.repeat(2 * 1024 * 1024),
+  }).then((response) => response.status, () => 0);
+  check(oversized === 413, 'a body over 1 MB is refused before its signature is checked');
+  check((await send('lesson-content-updated', 'sha256=0000')).status === 401, 'bad signature is rejected');
+  check(cached(`blocks-${PAGES.lesson}`) && cachedQueries('lesson'), '…and the cache is left alone');
+
+  const lesson = await send('lesson-content-updated');
+  check(lesson.status === 200 && lesson.body.kind === 'lesson', 'content_updated on a lesson is handled');
+  check(!cached(`blocks-${PAGES.lesson}`) && !cachedQueries('lesson'), '…its block tree and lesson queries are dropped');
+  check(cachedQueries('post') && cachedQueries('module'), '…other databases stay cached');
+
+  // Same page again, within the debounce window
+  check((await send('lesson-content-updated')).status === 200, 'a second edit of the lesson is accepted');
+
+  const post = await send('post-properties-updated');
+  check(post.status === 200 && post.body.kind === 'post', 'properties_updated on a post is handled');
+  check(!cachedQueries('post') && cached(`blocks-${PAGES.post}`), '…post queries are dropped, its block tree kept');
+
+  // No data_source_id in the parent: found through the cached module query
+  const mod = await send('module-properties-updated');
+  check(mod.status === 200 && mod.body.kind === 'module', 'a module is recognised from the cache');
+  check(!cachedQueries('module'), '…module queries are dropped');
+
+  const unrelated = await send('unrelated-page');
+  check(unrelated.status === 200 && 'ignored' in unrelated.body, 'a page outside the databases is ignored');
+  check(cached(`blocks-${PAGES.unrelated}`), '…and keeps its cache');
+  const comment = await send('comment-created');
+  check(comment.status === 200 && 'ignored' in comment.body, 'other event types are ignored');
+
+  check(rebuilds.length === 0, 'no rebuild while edits keep coming');
+  await sleep(DEBOUNCE_MS * 3);
+
+  check(rebuilds.length === 1, 'one rebuild for the whole burst');
+  const changes = rebuilds[0]?.changes ?? [];
+  check(
+    changes.map((c) => `${c.kind}:${c.pageId}`).join() ===
+      [`lesson:${PAGES.lesson}`, `post:${PAGES.post}`, `module:${PAGES.module}`].join(),
+    '…listing the lesson, the post and the module once each',
+  );
+  check(changes[0]?.slugs.at(-1) === 'bases-de-datos', '…with the slugs the pages were published under');
+} finally {
+  queue.close();
+  webhook.close();
+  hook.close();
+  process.chdir(os.tmpdir());
+  fs.rmSync(workDir, { recursive: true, force: true });
+}
+
+if (failures.length) {
+  console.error(`\n${failures.length} check(s) failed`);
+  process.exit(1);
+}
+console.log('\nAll checks passed');
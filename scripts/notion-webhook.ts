@@ -0,0 +1,55 @@
+// ---------------------------------------------------------------------------
+// Notion webhook receiver — `npm run webhook`
+// ---------------------------------------------------------------------------
+// Point a Notion webhook subscription (page.content_updated and
+// page.properties_updated) at http(s)://<host>/notion-webhook. Run it next to
+// the checkout the builds use, so it shares `.notion-cache/`. See
+// src/lib/notion-webhook.ts.
+//
+//   NOTION_WEBHOOK_SECRET       verification token of the subscription
+//   NOTION_REBUILD_HOOK         URL to POST to for a rebuild
+//   NOTION_WEBHOOK_PORT         default 4322
+//   NOTION_WEBHOOK_DEBOUNCE     seconds without events before rebuilding (default 60)
+//   NOTION_WEBHOOK_MAX_WAIT     longest a change waits for a rebuild (default 600)
+// ---------------------------------------------------------------------------
+
+import { loadEnv } from 'vite';
+import { getDatabaseId } from '../src/lib/notion';
+import { createRebuildQueue, createWebhookServer } from '../src/lib/notion-webhook';
+
+Object.assign(process.env, loadEnv('', process.cwd(), ''));
+
+const seconds = (name: string, fallback: number) => Number(process.env[name] || fallback) * 1000;
+const port = Number(process.env.NOTION_WEBHOOK_PORT || 4322);
+
+const queue = createRebuildQueue({
+  hookUrl: process.env.NOTION_REBUILD_HOOK,
+  debounceMs: seconds('NOTION_WEBHOOK_DEBOUNCE', 60),
+  maxWaitMs: seconds('NOTION_WEBHOOK_MAX_WAIT', 600),
+});
+
+const server = createWebhookServer({
+  secret: process.env.NOTION_WEBHOOK_SECRET,
+  databases: {
+    lesson: getDatabaseId('NOTION_LESSONS_DB'),
+    post: getDatabaseId('NOTION_BLOG_DB'),
+    module: getDatabaseId('NOTION_MODULES_DB'),
+  },
+  queue,
+});
+
+server.listen(port, () => {
+  console.log(`[notion-webhook] Listening on http://localhost:${port}/notion-webhook`);
+  if (!process.env.NOTION_WEBHOOK_SECRET) {
+    console.warn('[notion-webhook] NOTION_WEBHOOK_SECRET is not set: only the verification request is accepted');
+  }
+});
+
+// Don't lose a burst of edits still waiting for its rebuild
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, async () => {
+    server.close();
+    await queue.flush();
+    process.exit(0);
+  });
+}
@@ -3,97 +3,217 @@ import { glob } from 'astro/loaders';
 import type { Loader } from 'astro/loaders';
 import { loadEnv } from 'vite';
 import {
-  getBlogPosts,
   getLessons,
+  getModules,
+  getDatabaseId,
+  statusFilter,
+  slugify,
   getTitle,
   getRichText,
   getSelect,
   getDate,
   getNumber,
-  getCover,
-  getIcon,
+  getEmoji,
+  getUrl,
   getSlug,
+  getRelation,
+  type PageObjectResponse,
 } from './lib/notion';
+import { notionLoader, prop, type EntryContext } from './lib/notion-loader';
+import { mergedLoader } from './lib/merged-loader';
+import { acceptEntry, clearContentIssues, reportContentIssue } from './lib/content-issues';
+import { parseChapters, parseVideoUrl } from './lib/video';
+import { isFutureDate, isPreview, PUBLISHED_STATUS, SCHEDULED_STATUS } from './lib/preview';
+import { DEFAULT_LOCALE, LOCALES, entryId, parseLocale, splitEntryId, type Locale } from './lib/i18n';
 
 // Load .env vars into process.env so our Notion client can read them
 const env = loadEnv('', process.cwd(), '');
 Object.assign(process.env, env);
 
 // ---------------------------------------------------------------------------
-// Custom Notion loader for blog posts
+// Fields shared by the blog and lessons (see src/lib/notion-loader.ts)
 // ---------------------------------------------------------------------------
 
-function notionBlogLoader(): Loader {
-  return {
-    name: 'notion-blog-loader',
-    async load({ store, logger }) {
-      logger.info('Fetching blog posts from Notion...');
+/** Estado; published posts with a future Fecha are Programado (preview only). */
+function pageStatus(page: PageObjectResponse): string {
+  const estado = getSelect(page, 'Estado') || PUBLISHED_STATUS;
+  return estado === PUBLISHED_STATUS && isScheduled(page) ? SCHEDULED_STATUS : estado;
+}
 
-      const pages = await getBlogPosts();
-      logger.info(`Found ${pages.length} published blog posts`);
+function isScheduled(page: PageObjectResponse): boolean {
+  const fecha = getDate(page, 'Fecha');
+  return Boolean(fecha) && isFutureDate(fecha);
+}
 
-      store.clear();
+/** Idioma (empty: Spanish). An unknown value reads as Spanish; `locale` reports it. */
+function pageLocale(page: PageObjectResponse): Locale {
+  return parseLocale(getSelect(page, 'Idioma')) ?? DEFAULT_LOCALE;
+}
 
-      for (const page of pages) {
-        const slug = getSlug(page);
-        const title = getTitle(page) || getTitle(page, 'Título');
-        const description = getRichText(page, 'Descripción');
-        const fecha = getDate(page, 'Fecha');
-        const categoria = getSelect(page, 'Categoría') || 'Tutorial';
-        const emoji = getRichText(page, 'Emoji') || getIcon(page) || '📝';
-        const coverImage = getCover(page);
+/** Entry id: the slug, prefixed with the locale for translations (src/lib/i18n.ts). */
+const localizedSlug = (page: PageObjectResponse) => entryId(getSlug(page), pageLocale(page));
 
-        store.set({
-          id: slug,
-          data: {
-            title,
-            description,
-            publishDate: fecha || new Date().toISOString().split('T')[0],
-            category: categoria,
-            emoji,
-            coverImage: coverImage || undefined,
-            notionId: page.id,
-          },
-        });
-      }
-    },
-  };
-}
+const emoji = (fallback: string) => (page: PageObjectResponse) =>
+  getRichText(page, 'Emoji') || getEmoji(page) || fallback;
+
+// Notion-hosted covers/icons expire — they're downloaded with their size
+const pageFields = {
+  coverImage: async (_: PageObjectResponse, entry: EntryContext) => (await entry.cover())?.src || undefined,
+  coverWidth: async (_: PageObjectResponse, entry: EntryContext) => (await entry.cover())?.width,
+  coverHeight: async (_: PageObjectResponse, entry: EntryContext) => (await entry.cover())?.height,
+  iconImage: async (_: PageObjectResponse, entry: EntryContext) => (await entry.icon())?.src || undefined,
+  notionId: (page: PageObjectResponse) => page.id,
+  locale: (page: PageObjectResponse, entry: EntryContext) => {
+    const idioma = getSelect(page, 'Idioma');
+    if (!parseLocale(idioma)) {
+      reportContentIssue({
+        level: 'warning',
+        collection: entry.collection,
+        id: entry.id,
+        message: `Idioma "${idioma}" is not one of ${LOCALES.join(', ')}: published as ${DEFAULT_LOCALE}`,
+      });
+    }
+    return pageLocale(page);
+  },
+  // Translations point to the original page with the Traducción relation
+  translationOf: (page: PageObjectResponse) => getRelation(page, 'Traducción')[0],
+  status: pageStatus,
+  updatedDate: (page: PageObjectResponse) => getDate(page, 'Actualizado') || page.last_edited_time,
+  // Drafts (preview mode) don't get URLs to redirect from until they're published
+  previousSlugs: (page: PageObjectResponse, entry: EntryContext) =>
+    pageStatus(page) === PUBLISHED_STATUS
+      ? entry.slugHistory.track(page.id, splitEntryId(entry.id).slug, getRichText(page, 'Slugs anteriores'))
+      : [],
+};
+
+const pageSchemaFields = {
+  coverImage: z.string().optional(),
+  coverWidth: z.number().optional(),
+  coverHeight: z.number().optional(),
+  iconImage: z.string().optional(),
+  notionId: z.string(),
+  // Idioma in Notion; translations link to their original (src/lib/i18n.ts)
+  locale: z.enum(LOCALES).default(DEFAULT_LOCALE),
+  translationOf: z.string().optional(),
+  // Estado in Notion; anything but Publicado only loads in preview mode
+  status: z.string().default('Publicado'),
+  // Last edit: the Actualizado property (a date or "last edited time"), else the page's last_edited_time
+  updatedDate: z.string().optional(),
+  // Slugs the page had before, without the locale (for redirects — see src/lib/redirects.ts)
+  previousSlugs: z.array(z.string()).default([]),
+};
 
 // ---------------------------------------------------------------------------
-// Custom Notion loader for lessons
+// Custom Notion loader for course modules
 // ---------------------------------------------------------------------------
+// From the modules database if NOTION_MODULES_DB is set; otherwise derived
+// from each lesson's Módulo + Orden. A lesson whose slug matches the module
+// (or, when derived, whose title is the module name) is the module intro: its
+// content heads the module page instead of being listed as a lesson.
+//
+// Only Spanish pages shape the course. A module's title and description in
+// other languages come from the translation of its page in the modules
+// database or, when derived, of its intro lesson (src/lib/i18n.ts).
+
+/** Lesson slugs of a module, leaving out its intro unless it's the only one. */
+function moduleLessonSlugs(moduleSlug: string, lessons: { slug: string }[]): string[] {
+  const slugs = lessons.map((l) => l.slug);
+  return slugs.length > 1 ? slugs.filter((s) => s !== moduleSlug) : slugs;
+}
 
-function notionLessonsLoader(): Loader {
+type ModuleTranslations = Partial<Record<Locale, { title: string; description: string }>>;
+
+/** Title and description of every translation, by the id of the original page. */
+function collectTranslations(pages: PageObjectResponse[]): Map<string, ModuleTranslations> {
+  const translations = new Map<string, ModuleTranslations>();
+  for (const page of pages) {
+    const locale = pageLocale(page);
+    const original = getRelation(page, 'Traducción')[0];
+    if (locale === DEFAULT_LOCALE || !original) continue;
+    if (!translations.has(original)) translations.set(original, {});
+    translations.get(original)![locale] = {
+      title: getTitle(page) || getTitle(page, 'Título'),
+      description: getRichText(page, 'Descripción'),
+    };
+  }
+  return translations;
+}
+
+function notionModulesLoader(): Loader {
   return {
-    name: 'notion-lessons-loader',
+    name: 'notion-modules-loader',
     async load({ store, logger }) {
-      logger.info('Fetching lessons from Notion...');
+      logger.info('Fetching course modules from Notion...');
 
-      const pages = await getLessons();
-      logger.info(`Found ${pages.length} published lessons`);
+      // Lessons grouped by module name, already sorted by Orden. Pages the
+      // lessons loader rejects (no title, duplicate slug) are skipped here too.
+      const lessonsByModule = new Map<string, { slug: string; pageId: string; title: string; emoji: string; description: string; order: number }[]>();
+      const lessonSlugs = new Set<string>();
+      const lessonPages = await getLessons();
+      const lessonTranslations = collectTranslations(lessonPages);
+      for (const page of lessonPages) {
+        if (pageLocale(page) !== DEFAULT_LOCALE) continue;
+        const slug = getSlug(page);
+        const title = getTitle(page) || getTitle(page, 'Título');
+        if (!title.trim() || !slug || lessonSlugs.has(slug)) continue;
+        lessonSlugs.add(slug);
+
+        const name = getSelect(page, 'Módulo') || 'Fundamentos';
+        if (!lessonsByModule.has(name)) lessonsByModule.set(name, []);
+        lessonsByModule.get(name)!.push({
+          slug,
+          pageId: page.id,
+          title,
+          emoji: getRichText(page, 'Emoji') || getEmoji(page),
+          description: getRichText(page, 'Descripción'),
+          order: getNumber(page, 'Orden'),
+        });
+      }
 
+      const modulePages = await getModules();
       store.clear();
+      clearContentIssues('modules');
 
-      for (const page of pages) {
-        const slug = getSlug(page);
-        const title = getTitle(page) || getTitle(page, 'Título');
-        const description = getRichText(page, 'Descripción');
-        const orden = getNumber(page, 'Orden');
-        const modulo = getSelect(page, 'Módulo') || 'Fundamentos';
-        const emoji = getRichText(page, 'Emoji') || getIcon(page) || '📖';
-        const coverImage = getCover(page);
+      if (modulePages) {
+        const moduleTranslations = collectTranslations(modulePages);
+        const originals = modulePages.filter((page) => pageLocale(page) === DEFAULT_LOCALE);
+        logger.info(`Found ${originals.length} modules`);
+        const seen = new Map<string, string>();
+        for (const page of originals) {
+          const slug = getSlug(page);
+          const title = getTitle(page) || getTitle(page, 'Título');
+          if (!acceptEntry('modules', seen, { slug, title, pageId: page.id })) continue;
+          const lessons = lessonsByModule.get(title) ?? lessonsByModule.get(slug) ?? [];
+
+          store.set({
+            id: slug,
+            data: {
+              title,
+              emoji: getRichText(page, 'Emoji') || getEmoji(page) || '📚',
+              description: getRichText(page, 'Descripción'),
+              order: getNumber(page, 'Orden'),
+              lessonSlugs: moduleLessonSlugs(slug, lessons),
+              translations: moduleTranslations.get(page.id) ?? {},
+            },
+          });
+        }
+        return;
+      }
+
+      logger.info(`NOTION_MODULES_DB not set — deriving ${lessonsByModule.size} modules from lessons`);
+      for (const [name, lessons] of lessonsByModule) {
+        const intro = lessons.find((l) => l.title === name);
+        const slug = intro?.slug ?? slugify(name);
 
         store.set({
           id: slug,
           data: {
-            title,
-            description,
-            order: orden,
-            module: modulo,
-            emoji,
-            coverImage: coverImage || undefined,
-            notionId: page.id,
+            title: name,
+            emoji: intro?.emoji || lessons[0].emoji || '📚',
+            description: intro?.description ?? '',
+            order: Math.min(...lessons.map((l) => l.order)),
+            lessonSlugs: moduleLessonSlugs(slug, lessons),
+            translations: (intro && lessonTranslations.get(intro.pageId)) ?? {},
           },
         });
       }
@@ -105,29 +225,123 @@ function notionLessonsLoader(): Loader {
 // Collections
 // ---------------------------------------------------------------------------
 
+// Posts come from Notion and from the MDX files in src/content/blog/
+// (frontmatter with the same fields). On a slug conflict the Notion post
+// wins and the file is reported (see src/lib/merged-loader.ts).
+const blogSchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  publishDate: z.string(),
+  category: z.string().default('Tutorial'),
+  emoji: z.string(),
+  ...pageSchemaFields,
+  // Local MDX posts have none
+  notionId: z.string().optional(),
+});
+
+const notionBlogLoader = notionLoader({
+  name: 'blog',
+  dataSourceId: () => getDatabaseId('NOTION_BLOG_DB'),
+  filter: statusFilter(),
+  sorts: [{ property: 'Fecha', direction: 'descending' }],
+  schema: blogSchema,
+  slug: localizedSlug,
+  // Scheduled posts (future Fecha) wait for the first build on or after
+  // that date; preview mode shows them as Programado
+  skip: (page) => (isScheduled(page) && !isPreview() ? 'scheduled (future Fecha)' : false),
+  map: {
+    title: prop.title(),
+    description: prop.text('Descripción'),
+    publishDate: (page, entry) => {
+      const fecha = getDate(page, 'Fecha');
+      if (!fecha) {
+        reportContentIssue({
+          level: 'warning',
+          collection: 'blog',
+          id: entry.id,
+          message: 'No Fecha: using the date the page was created',
+        });
+      }
+      // Never "today": the date must not change from one build to the next
+      return fecha || page.created_time.split('T')[0];
+    },
+    category: prop.select('Categoría'),
+    emoji: emoji('📝'),
+    ...pageFields,
+  },
+});
+
 const blog = defineCollection({
-  loader: notionBlogLoader(),
-  schema: z.object({
-    title: z.string(),
-    description: z.string(),
-    publishDate: z.string(),
-    category: z.string(),
-    emoji: z.string(),
-    coverImage: z.string().optional(),
-    notionId: z.string(),
+  loader: mergedLoader({
+    name: 'blog',
+    sources: [
+      { name: 'notion', loader: notionBlogLoader },
+      { name: 'mdx', loader: glob({ pattern: '**/*.mdx', base: './src/content/blog' }) },
+    ],
   }),
+  schema: blogSchema,
+});
+
+const lessonsSchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  order: z.number().default(0),
+  module: z.string().default('Fundamentos'),
+  emoji: z.string(),
+  video: z.object({
+    url: z.string(),
+    chapters: z.array(z.object({ start: z.number(), title: z.string() })),
+  }).optional(),
+  createdAt: z.string().optional(),
+  ...pageSchemaFields,
 });
 
 const lessons = defineCollection({
-  loader: notionLessonsLoader(),
+  loader: notionLoader({
+    name: 'lessons',
+    dataSourceId: () => getDatabaseId('NOTION_LESSONS_DB'),
+    filter: statusFilter(),
+    sorts: [{ property: 'Orden', direction: 'ascending' }],
+    schema: lessonsSchema,
+    slug: localizedSlug,
+    map: {
+      title: prop.title(),
+      description: prop.text('Descripción'),
+      order: prop.number('Orden'),
+      module: prop.select('Módulo'),
+      emoji: emoji('📖'),
+      // Optional main video, shown above the content (src/lib/video.ts)
+      video: (page, entry) => {
+        const url = getUrl(page, 'Video') || getRichText(page, 'Video');
+        if (!url) return undefined;
+        if (!parseVideoUrl(url)) {
+          reportContentIssue({
+            level: 'warning',
+            collection: 'lessons',
+            id: entry.id,
+            message: `Video "${url}" is not a YouTube, Vimeo or Loom URL`,
+          });
+          return undefined;
+        }
+        return { url, chapters: parseChapters(getRichText(page, 'Capítulos')).chapters };
+      },
+      createdAt: (page) => page.created_time,
+      ...pageFields,
+    },
+  }),
+  schema: lessonsSchema,
+});
+
+const modules = defineCollection({
+  loader: notionModulesLoader(),
   schema: z.object({
     title: z.string(),
+    emoji: z.string(),
     description: z.string(),
     order: z.number(),
-    module: z.string(),
-    emoji: z.string(),
-    coverImage: z.string().optional(),
-    notionId: z.string(),
+    lessonSlugs: z.array(z.string()),
+    // Title and description in the other languages
+    translations: z.record(z.enum(LOCALES), z.object({ title: z.string(), description: z.string() })).default({}),
   }),
 });
 
@@ -149,7 +363,7 @@ const herramientas = defineCollection({
     // --- Producto externo: si true, no genera página propia, solo card con enlace ---
     external: z.boolean().default(false),
 
-    // --- Orden dentro de su categoría ---
+    // --- Orden dentro de su categoría (de aquí sale el anterior/siguiente) ---
     order: z.number().default(0),
 
     // --- Badge de la card (texto + color) ---
@@ -195,17 +409,7 @@ const herramientas = defineCollection({
       question: z.string(),
       answer: z.string(),
     })).optional(),
-
-    // --- Navegación entre productos ---
-    prevProduct: z.object({
-      slug: z.string(),
-      label: z.string(),
-    }).optional(),
-    nextProduct: z.object({
-      slug: z.string(),
-      label: z.string(),
-    }).optional(),
   }),
 });
 
-export const collections = { blog, lessons, herramientas };
+export const collections = { blog, lessons, modules, herramientas };
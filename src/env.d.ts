@@ -0,0 +1,8 @@
+/// <reference types="astro/client" />
+
+declare namespace App {
+  interface Locals {
+    /** Notion page being rendered — see src/lib/notion-render.ts */
+    notionPage?: import('./lib/notion-render').NotionPageContext;
+  }
+}
@@ -0,0 +1,32 @@
+import type { AstroIntegration } from 'astro';
+import { getContentIssues, formatContentIssues } from '../lib/content-issues';
+
+/**
+ * Once the build finishes, lists every content issue found by the loaders and
+ * by `checkContentIntegrity()` (src/lib/content-integrity.ts) in one report,
+ * and fails the build if any of them is an error.
+ */
+export default function contentIntegrity(): AstroIntegration {
+  return {
+    name: 'content-integrity',
+    hooks: {
+      'astro:build:done': ({ logger }) => {
+        const issues = getContentIssues();
+        if (issues.length === 0) {
+          logger.info('No content issues found');
+          return;
+        }
+
+        const errors = issues.filter((i) => i.level === 'error').length;
+        const warnings = issues.length - errors;
+        const summary = `${errors} error(s), ${warnings} warning(s) in the content:\n${formatContentIssues(issues)}`;
+
+        if (errors > 0) {
+          logger.error(summary);
+          throw new Error(`Content integrity check failed with ${errors} error(s); see the report above.`);
+        }
+        logger.warn(summary);
+      },
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import type { AstroIntegration } from 'astro';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ASSETS_DIR, ASSETS_URL_PREFIX, getUsedAssetFiles, pruneAssets } from '../lib/assets';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.svg': 'image/svg+xml',
+  '.ico': 'image/x-icon',
+  '.pdf': 'application/pdf',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.m4a': 'audio/mp4',
+  '.mp4': 'video/mp4',
+  '.zip': 'application/zip',
+};
+
+/**
+ * Serves the Notion asset store (src/lib/assets.ts) under `/_notion/`:
+ * from `.notion-cache/assets` in dev, and by copying the files the build
+ * used into `dist/_notion/` — deleting the ones no page uses anymore.
+ */
+export default function notionAssets(): AstroIntegration {
+  return {
+    name: 'notion-assets',
+    hooks: {
+      'astro:server:setup': ({ server }) => {
+        server.middlewares.use((req, res, next) => {
+          if (!req.url?.startsWith(ASSETS_URL_PREFIX)) return next();
+          const file = path.basename(decodeURIComponent(req.url.slice(ASSETS_URL_PREFIX.length).split('?')[0]));
+          const filePath = path.join(ASSETS_DIR, file);
+          if (!fs.existsSync(filePath)) return next();
+          res.setHeader('Content-Type', CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream');
+          fs.createReadStream(filePath).pipe(res);
+        });
+      },
+
+      'astro:build:done': ({ dir, logger }) => {
+        const used = getUsedAssetFiles();
+        const outDir = path.join(fileURLToPath(dir), ASSETS_URL_PREFIX);
+
+        let copied = 0;
+        for (const file of used) {
+          const source = path.join(ASSETS_DIR, file);
+          if (!fs.existsSync(source)) continue;
+          fs.mkdirSync(outDir, { recursive: true });
+          fs.copyFileSync(source, path.join(outDir, file));
+          copied++;
+        }
+
+        const removed = pruneAssets(used);
+        if (copied > 0 || removed > 0) {
+          logger.info(`${copied} Notion assets copied, ${removed} orphaned files removed`);
+        }
+      },
+    },
+  };
+}
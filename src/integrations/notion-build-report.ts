@@ -0,0 +1,40 @@
+import type { AstroIntegration } from 'astro';
+import { getRequestStats, formatRequestStats } from '../lib/notion-scheduler';
+import { getUnsupportedBlocks, getUnresolvedLinks } from '../lib/notion-render';
+
+/**
+ * Once the build finishes, logs the Notion request totals (loaders + block
+ * fetches while rendering pages), every block NotionRenderer could not
+ * render and every link to an unpublished Notion page, so nothing
+ * disappears from (or leaks into) a published page unnoticed.
+ */
+export default function notionBuildReport(): AstroIntegration {
+  return {
+    name: 'notion-build-report',
+    hooks: {
+      'astro:build:done': ({ logger }) => {
+        logger.info(formatRequestStats(getRequestStats()));
+
+        const unsupported = getUnsupportedBlocks();
+        if (unsupported.length > 0) {
+          const lines = unsupported.map(
+            (b) => `  ${b.path} (page ${b.pageId}): ${b.type} block ${b.blockId}`,
+          );
+          logger.warn(
+            `${unsupported.length} Notion block(s) were not rendered:\n${lines.join('\n')}`,
+          );
+        }
+
+        const unresolved = getUnresolvedLinks();
+        if (unresolved.length > 0) {
+          const lines = unresolved.map(
+            (l) => `  ${l.path} (page ${l.pageId}): "${l.text}" → unpublished page ${l.target}`,
+          );
+          logger.warn(
+            `${unresolved.length} link(s) to unpublished Notion pages were rendered as plain text:\n${lines.join('\n')}`,
+          );
+        }
+      },
+    },
+  };
+}
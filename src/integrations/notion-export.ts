@@ -0,0 +1,45 @@
+import type { AstroIntegration } from 'astro';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+/** Site folder of each collection's .md pages → folder in the export. */
+const EXPORTS = [
+  { from: 'curso', to: 'lessons' },
+  { from: 'blog', to: 'blog' },
+];
+
+/**
+ * Copies the Markdown version of every lesson and post the build produced
+ * (src/pages/{curso,blog}/[slug].md.ts) to `dir` as .mdx files, so the Notion
+ * content can be diffed, reviewed or backed up. Off unless `dir` is set
+ * (`npm run export` sets NOTION_EXPORT_DIR). Each folder is rewritten from
+ * scratch, so unpublished pages disappear from the export too.
+ */
+export default function notionExport(options: { dir?: string } = {}): AstroIntegration {
+  return {
+    name: 'notion-export',
+    hooks: {
+      'astro:build:done': ({ dir, logger }) => {
+        if (!options.dir) return;
+        const outDir = path.resolve(options.dir);
+
+        let written = 0;
+        for (const { from, to } of EXPORTS) {
+          const source = path.join(fileURLToPath(dir), from);
+          const target = path.join(outDir, to);
+          fs.rmSync(target, { recursive: true, force: true });
+          fs.mkdirSync(target, { recursive: true });
+          if (!fs.existsSync(source)) continue;
+
+          for (const file of fs.readdirSync(source)) {
+            if (path.extname(file) !== '.md') continue;
+            fs.copyFileSync(path.join(source, file), path.join(target, `${path.basename(file, '.md')}.mdx`));
+            written++;
+          }
+        }
+        logger.info(`${written} lessons and posts exported to ${path.relative(process.cwd(), outDir) || '.'}`);
+      },
+    },
+  };
+}
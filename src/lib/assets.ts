@@ -0,0 +1,366 @@
+// ---------------------------------------------------------------------------
+// Asset pipeline — Notion images, covers, icons, files and bookmark previews
+// ---------------------------------------------------------------------------
+// Notion-hosted files are served from signed S3 URLs that expire after an
+// hour, so everything a page shows is downloaded at build time into a
+// content-addressed store (`.notion-cache/assets/<sha>.<ext>`):
+//
+// - the file type is sniffed from the bytes, not guessed from the URL
+// - files are named by content hash, so an edited image gets a new name
+// - raster images get intrinsic width/height and smaller WebP variants
+//
+// The store is served under `/_notion/` (see src/integrations/notion-assets.ts),
+// which also copies the files a build used into `dist/` and deletes the rest.
+// ---------------------------------------------------------------------------
+
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import sharp from 'sharp';
+import type { PageObjectResponse } from '@notionhq/client/build/src/api-endpoints';
+import { CACHE_DIR } from './notion-cache';
+import { getNotionMode } from './notion';
+
+export const ASSETS_DIR = path.join(CACHE_DIR, 'assets');
+export const ASSETS_URL_PREFIX = '/_notion/';
+
+const MANIFEST_FILE = path.join(ASSETS_DIR, 'manifest.json');
+const BOOKMARKS_FILE = path.join(ASSETS_DIR, 'bookmarks.json');
+
+/** Widths of the responsive WebP variants (only those smaller than the original). */
+const VARIANT_WIDTHS = [480, 960, 1440];
+const FETCH_TIMEOUT_MS = 15_000;
+
+export interface LocalAsset {
+  /** Public URL (local, or the original one if it couldn't be downloaded) */
+  src: string;
+  mime?: string;
+  width?: number;
+  height?: number;
+  /** `srcset` with the WebP variants, for raster images */
+  srcset?: string;
+}
+
+interface StoredAsset {
+  file: string;
+  mime: string;
+  width?: number;
+  height?: number;
+  variants: { width: number; file: string }[];
+}
+
+// ---------------------------------------------------------------------------
+// Type detection
+// ---------------------------------------------------------------------------
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/avif': '.avif',
+  'image/svg+xml': '.svg',
+  'image/x-icon': '.ico',
+  'application/pdf': '.pdf',
+  'audio/mpeg': '.mp3',
+  'audio/wav': '.wav',
+  'audio/ogg': '.ogg',
+  'audio/mp4': '.m4a',
+  'video/mp4': '.mp4',
+  'application/zip': '.zip',
+};
+
+/** MIME type from the file's magic bytes, falling back to the Content-Type header. */
+export function sniffMimeType(buf: Buffer, contentType?: string | null): string {
+  const ascii = (start: number, end: number) => buf.subarray(start, end).toString('latin1');
+
+  if (buf[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+  if (buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff) return 'image/jpeg';
+  if (ascii(0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') return 'audio/wav';
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (brand.startsWith('M4A')) return 'audio/mp4';
+    return 'video/mp4';
+  }
+  if (ascii(0, 5) === '%PDF-') return 'application/pdf';
+  if (ascii(0, 3) === 'ID3' || (buf[0] === 0xff && (buf[1] & 0xe0) === 0xe0)) return 'audio/mpeg';
+  if (ascii(0, 4) === 'OggS') return 'audio/ogg';
+  if (ascii(0, 4) === 'PK\x03\x04') return 'application/zip';
+  if (buf[0] === 0 && buf[1] === 0 && buf[2] === 1 && buf[3] === 0) return 'image/x-icon';
+
+  const head = ascii(0, 512).trimStart();
+  if ((head.startsWith('<?xml') || head.startsWith('<svg')) && head.includes('<svg')) {
+    return 'image/svg+xml';
+  }
+
+  return contentType?.split(';')[0].trim().toLowerCase() || 'application/octet-stream';
+}
+
+function extensionFor(mime: string): string {
+  return EXTENSIONS[mime] ?? '.bin';
+}
+
+// ---------------------------------------------------------------------------
+// Manifest (source URL → stored file) and build usage
+// ---------------------------------------------------------------------------
+
+function readJson<T>(file: string, fallback: T): T {
+  if (!fs.existsSync(file)) return fallback;
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function writeJson(file: string, data: unknown) {
+  fs.mkdirSync(ASSETS_DIR, { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(data, null, 2));
+}
+
+/** Hosts of Notion-hosted files, whose URLs are signed. */
+function isNotionFileHost(hostname: string): boolean {
+  return (
+    hostname.endsWith('.amazonaws.com') ||
+    hostname === 'file.notion.so' ||
+    hostname === 'img.notionusercontent.com'
+  );
+}
+
+/**
+ * Signed Notion URLs change on every request, but their path identifies the
+ * file (a replaced image gets a new path), so their query string is dropped.
+ * Any other URL is kept whole: `?id=1` and `?id=2` can be different images.
+ */
+function sourceKey(url: string): string {
+  try {
+    const u = new URL(url);
+    return isNotionFileHost(u.hostname) ? `${u.origin}${u.pathname}` : url;
+  } catch {
+    return url;
+  }
+}
+
+// Shared through globalThis so loaders and prerendered pages report to the
+// same build (see src/integrations/notion-assets.ts)
+const USED_KEY = Symbol.for('aprendenotion.notion-assets-used');
+
+export function getUsedAssetFiles(): Set<string> {
+  const g = globalThis as any;
+  if (!g[USED_KEY]) g[USED_KEY] = new Set<string>();
+  return g[USED_KEY];
+}
+
+function markUsed(stored: StoredAsset) {
+  const used = getUsedAssetFiles();
+  used.add(stored.file);
+  for (const v of stored.variants) used.add(v.file);
+}
+
+function toLocalAsset(stored: StoredAsset): LocalAsset {
+  markUsed(stored);
+  const src = ASSETS_URL_PREFIX + stored.file;
+  const srcset = stored.variants.length
+    ? [
+        ...stored.variants.map((v) => `${ASSETS_URL_PREFIX}${v.file} ${v.width}w`),
+        `${src} ${stored.width}w`,
+      ].join(', ')
+    : undefined;
+  return { src, mime: stored.mime, width: stored.width, height: stored.height, srcset };
+}
+
+// ---------------------------------------------------------------------------
+// Download + store
+// ---------------------------------------------------------------------------
+
+async function fetchWithTimeout(url: string, init?: RequestInit): Promise<Response> {
+  return fetch(url, { ...init, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+}
+
+async function storeBuffer(buf: Buffer, mime: string): Promise<StoredAsset> {
+  const hash = createHash('sha256').update(buf).digest('hex').slice(0, 20);
+  const file = hash + extensionFor(mime);
+  fs.mkdirSync(ASSETS_DIR, { recursive: true });
+  const filePath = path.join(ASSETS_DIR, file);
+  if (!fs.existsSync(filePath)) fs.writeFileSync(filePath, buf);
+
+  const stored: StoredAsset = { file, mime, variants: [] };
+  if (!mime.startsWith('image/') || mime === 'image/x-icon') return stored;
+
+  try {
+    const meta = await sharp(buf).metadata();
+    stored.width = meta.width;
+    stored.height = meta.height;
+
+    // SVGs scale by themselves and GIFs would lose their animation
+    if (mime === 'image/svg+xml' || mime === 'image/gif' || !meta.width) return stored;
+
+    for (const width of VARIANT_WIDTHS.filter((w) => w < meta.width!)) {
+      const variant = `${hash}-${width}.webp`;
+      const variantPath = path.join(ASSETS_DIR, variant);
+      if (!fs.existsSync(variantPath)) {
+        await sharp(buf).resize({ width }).webp({ quality: 80 }).toFile(variantPath);
+      }
+      stored.variants.push({ width, file: variant });
+    }
+  } catch {
+    // Not decodable by sharp — serve it as is, without dimensions
+  }
+  return stored;
+}
+
+/**
+ * Download a remote file into the asset store and return its local URL.
+ * Already-downloaded sources are served from the store without a request;
+ * in replay mode (offline) unknown sources keep their original URL.
+ */
+export async function localizeAsset(url: string): Promise<LocalAsset> {
+  if (!url || url.startsWith('/')) return { src: url };
+
+  const key = sourceKey(url);
+  const manifest = readJson<Record<string, StoredAsset>>(MANIFEST_FILE, {});
+  const known = manifest[key];
+  if (known && fs.existsSync(path.join(ASSETS_DIR, known.file))) return toLocalAsset(known);
+
+  if (getNotionMode() === 'replay') return { src: url };
+
+  try {
+    const res = await fetchWithTimeout(url);
+    if (!res.ok) return { src: url }; // fallback to original URL
+    const buf = Buffer.from(await res.arrayBuffer());
+    const stored = await storeBuffer(buf, sniffMimeType(buf, res.headers.get('content-type')));
+
+    const latest = readJson<Record<string, StoredAsset>>(MANIFEST_FILE, {});
+    latest[key] = stored;
+    writeJson(MANIFEST_FILE, latest);
+    return toLocalAsset(stored);
+  } catch {
+    return { src: url };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Page covers and icons
+// ---------------------------------------------------------------------------
+
+/** Cover of a page, downloaded if Notion hosts it. */
+export async function localizeCover(page: PageObjectResponse): Promise<LocalAsset | null> {
+  if (!page.cover) return null;
+  if (page.cover.type === 'file') return localizeAsset(page.cover.file.url);
+  if (page.cover.type === 'external') return { src: page.cover.external.url };
+  return null;
+}
+
+/** Image icon of a page (not emoji), downloaded if Notion hosts it. */
+export async function localizeIcon(page: PageObjectResponse): Promise<LocalAsset | null> {
+  if (!page.icon) return null;
+  if (page.icon.type === 'file') return localizeAsset(page.icon.file.url);
+  if (page.icon.type === 'external') return { src: page.icon.external.url };
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Bookmark previews (Open Graph metadata of the bookmarked page)
+// ---------------------------------------------------------------------------
+
+export interface BookmarkPreview {
+  title?: string;
+  description?: string;
+  image?: LocalAsset;
+}
+
+interface StoredBookmark {
+  title?: string;
+  description?: string;
+  imageUrl?: string;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'");
+}
+
+function metaContent(html: string, name: string): string | undefined {
+  const tags = html.match(/<meta\b[^>]*>/gi) ?? [];
+  for (const tag of tags) {
+    const key = tag.match(/\b(?:property|name)\s*=\s*["']([^"']+)["']/i)?.[1];
+    if (key?.toLowerCase() !== name) continue;
+    const content = tag.match(/\bcontent\s*=\s*["']([^"']*)["']/i)?.[1];
+    if (content) return decodeEntities(content.trim());
+  }
+  return undefined;
+}
+
+async function fetchBookmark(url: string): Promise<StoredBookmark> {
+  const res = await fetchWithTimeout(url, { headers: { accept: 'text/html' } });
+  if (!res.ok || !res.headers.get('content-type')?.includes('html')) return {};
+  const html = (await res.text()).slice(0, 200_000);
+
+  const title =
+    metaContent(html, 'og:title') ??
+    decodeEntities(html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1]?.trim() ?? '');
+  const description = metaContent(html, 'og:description') ?? metaContent(html, 'description');
+  const image = metaContent(html, 'og:image') ?? metaContent(html, 'twitter:image');
+
+  return {
+    title: title || undefined,
+    description,
+    imageUrl: image ? new URL(image, url).href : undefined,
+  };
+}
+
+/** Title, description and (downloaded) preview image of a bookmarked URL. */
+export async function getBookmarkPreview(url: string): Promise<BookmarkPreview> {
+  const bookmarks = readJson<Record<string, StoredBookmark>>(BOOKMARKS_FILE, {});
+  let meta = bookmarks[url];
+
+  if (!meta && getNotionMode() !== 'replay') {
+    try {
+      meta = await fetchBookmark(url);
+    } catch {
+      return {}; // network hiccup — try again next build
+    }
+    const latest = readJson<Record<string, StoredBookmark>>(BOOKMARKS_FILE, {});
+    latest[url] = meta;
+    writeJson(BOOKMARKS_FILE, latest);
+  }
+  if (!meta) return {};
+
+  const image = meta.imageUrl ? await localizeAsset(meta.imageUrl) : undefined;
+  return { title: meta.title, description: meta.description, image };
+}
+
+// ---------------------------------------------------------------------------
+// Orphan cleanup
+// ---------------------------------------------------------------------------
+
+/**
+ * Delete stored files no page used in this build, and drop manifest entries
+ * pointing at them. Returns the number of files removed.
+ */
+export function pruneAssets(used: Set<string>): number {
+  if (!fs.existsSync(ASSETS_DIR)) return 0;
+  const keep = new Set([path.basename(MANIFEST_FILE), path.basename(BOOKMARKS_FILE), ...used]);
+  let removed = 0;
+
+  for (const file of fs.readdirSync(ASSETS_DIR)) {
+    if (keep.has(file)) continue;
+    fs.unlinkSync(path.join(ASSETS_DIR, file));
+    removed++;
+  }
+
+  const manifest = readJson<Record<string, StoredAsset>>(MANIFEST_FILE, {});
+  for (const [key, stored] of Object.entries(manifest)) {
+    if (!used.has(stored.file)) delete manifest[key];
+  }
+  writeJson(MANIFEST_FILE, manifest);
+
+  return removed;
+}
@@ -0,0 +1,222 @@
+// ---------------------------------------------------------------------------
+// Content integrity — cross-checks between the loaded collections
+// ---------------------------------------------------------------------------
+// Awaited from the getStaticPaths of the dynamic routes, so it runs once the
+// collections are final. Issues end up in the build report (content-issues.ts).
+// ---------------------------------------------------------------------------
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { getCollection } from 'astro:content';
+import { getCourseModules, getCourseRouteSlugs } from './course-modules';
+import { COMPARE_SLUG, getProducts, parsePrice } from './herramientas';
+import { reportContentIssue } from './content-issues';
+import { LEGACY_REDIRECTS } from './redirects';
+import { DEFAULT_LOCALE, inLocale, splitEntryId } from './i18n';
+
+const CHECKED_KEY = Symbol.for('aprendenotion.content-integrity-checked');
+
+async function checkCourse() {
+  // The course is shaped by the Spanish lessons; translations are checked below
+  const lessons = await getCollection('lessons', inLocale(DEFAULT_LOCALE));
+  const modules = await getCourseModules();
+  const lessonIds = new Set(lessons.map((l) => l.id));
+  const placed = new Map<string, string>();
+
+  for (const mod of modules) {
+    if (mod.lessonSlugs.length === 0) {
+      reportContentIssue({
+        level: 'error',
+        collection: 'modules',
+        id: mod.slug,
+        message: 'module has no published lessons',
+      });
+    }
+
+    for (const slug of mod.lessonSlugs) {
+      if (!lessonIds.has(slug)) {
+        reportContentIssue({
+          level: 'error',
+          collection: 'modules',
+          id: mod.slug,
+          message: `lesson "${slug}" does not exist`,
+        });
+      }
+      const other = placed.get(slug);
+      if (other && other !== mod.slug) {
+        reportContentIssue({
+          level: 'warning',
+          collection: 'modules',
+          id: mod.slug,
+          message: `lesson "${slug}" is also in module "${other}"`,
+        });
+      }
+      placed.set(slug, mod.slug);
+    }
+  }
+
+  // Module intros are shown on the module page, so they count as placed
+  const moduleSlugs = new Set(modules.map((m) => m.slug));
+  for (const lesson of lessons) {
+    if (!placed.has(lesson.id) && !moduleSlugs.has(lesson.id)) {
+      reportContentIssue({
+        level: 'warning',
+        collection: 'lessons',
+        id: lesson.id,
+        message: `not part of any module (Módulo "${lesson.data.module}"), so it's missing from the course navigation`,
+      });
+    }
+    if (!lesson.data.description) {
+      reportContentIssue({
+        level: 'warning',
+        collection: 'lessons',
+        id: lesson.id,
+        message: 'lesson has no description',
+      });
+    }
+  }
+}
+
+async function checkBlog() {
+  for (const post of await getCollection('blog')) {
+    if (!post.data.description) {
+      reportContentIssue({
+        level: 'warning',
+        collection: 'blog',
+        id: post.id,
+        message: 'post has no description',
+      });
+    }
+  }
+}
+
+async function checkTranslations() {
+  for (const collection of ['lessons', 'blog'] as const) {
+    const entries = await getCollection(collection);
+    const originals = new Set(entries.filter(inLocale(DEFAULT_LOCALE)).map((e) => e.data.notionId).filter(Boolean));
+    const translated = new Map<string, string>();
+
+    for (const entry of entries) {
+      const { locale, translationOf } = entry.data;
+      // Local MDX posts take their locale from the folder (src/content/blog/en/)
+      if (entry.filePath && splitEntryId(entry.id).locale !== locale) {
+        reportContentIssue({
+          level: 'warning',
+          collection,
+          id: entry.id,
+          message: `locale is "${locale}" but the file is published as "${splitEntryId(entry.id).locale}": move it to src/content/blog/${locale === DEFAULT_LOCALE ? '' : `${locale}/`}`,
+        });
+      }
+      if (locale === DEFAULT_LOCALE) continue;
+
+      if (!translationOf || !originals.has(translationOf)) {
+        reportContentIssue({
+          level: 'warning',
+          collection,
+          id: entry.id,
+          message: collection === 'lessons'
+            ? `not published: a ${locale} lesson needs its Traducción relation to point to a published Spanish lesson`
+            : `Traducción ${translationOf ? "points to a page that isn't published" : 'is empty'}, so the post has no Spanish version`,
+        });
+        continue;
+      }
+      const key = `${locale}:${translationOf}`;
+      const other = translated.get(key);
+      if (other) {
+        reportContentIssue({
+          level: 'warning',
+          collection,
+          id: entry.id,
+          message: `translates the same page as "${other}", which comes first`,
+        });
+      } else {
+        translated.set(key, entry.id);
+      }
+    }
+  }
+}
+
+async function checkHerramientas() {
+  const products = await getProducts();
+  const orders = new Map<string, string>();
+
+  for (const product of products) {
+    const { price, priceNumeric, category, order } = product.data;
+    const amount = parsePrice(price);
+    if (amount === null) {
+      reportContentIssue({
+        level: 'warning',
+        collection: 'herramientas',
+        id: product.id,
+        message: `price "${price}" has no amount in €: priceNumeric (${priceNumeric}) can't be checked`,
+      });
+    } else if (amount !== priceNumeric) {
+      reportContentIssue({
+        level: 'error',
+        collection: 'herramientas',
+        id: product.id,
+        message: `price "${price}" doesn't match priceNumeric ${priceNumeric}`,
+      });
+    }
+
+    // Prev/next follow category + order (src/lib/herramientas.ts)
+    const position = `${category}:${order}`;
+    const other = orders.get(position);
+    if (other) {
+      reportContentIssue({
+        level: 'warning',
+        collection: 'herramientas',
+        id: product.id,
+        message: `has the same order (${order}) as "${other}" in ${category}: sorted by title`,
+      });
+    } else {
+      orders.set(position, product.id);
+    }
+
+    if (product.id === COMPARE_SLUG && !product.data.external) {
+      reportContentIssue({
+        level: 'error',
+        collection: 'herramientas',
+        id: product.id,
+        message: `/herramientas/${COMPARE_SLUG} is the comparison page: rename the file`,
+      });
+    }
+
+    const image = product.data.image;
+    if (image.startsWith('/') && !fs.existsSync(path.join(process.cwd(), 'public', image))) {
+      reportContentIssue({
+        level: 'warning',
+        collection: 'herramientas',
+        id: product.id,
+        message: `image "${image}" is not in public/`,
+      });
+    }
+  }
+}
+
+async function checkRedirects() {
+  const courseSlugs = await getCourseRouteSlugs();
+  for (const [from, to] of Object.entries(LEGACY_REDIRECTS)) {
+    const slug = to.match(/^\/curso\/([^/]+)$/)?.[1];
+    if (slug && !courseSlugs.has(slug)) {
+      reportContentIssue({
+        level: 'warning',
+        collection: 'redirects',
+        id: from,
+        message: `redirects to ${to}, which is not published`,
+      });
+    }
+  }
+}
+
+/**
+ * Cross-check the loaded collections. Runs once per build however many
+ * routes await it; the results are read by the content-integrity integration.
+ */
+export function checkContentIntegrity(): Promise<void> {
+  const g = globalThis as any;
+  if (!g[CHECKED_KEY]) {
+    g[CHECKED_KEY] = Promise.all([checkCourse(), checkBlog(), checkTranslations(), checkHerramientas(), checkRedirects()]).then(() => {});
+  }
+  return g[CHECKED_KEY];
+}
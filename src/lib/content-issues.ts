@@ -0,0 +1,124 @@
+// ---------------------------------------------------------------------------
+// Content issues — problems that would otherwise break the site silently
+// ---------------------------------------------------------------------------
+// Issues come from two places:
+//
+// - the Notion loaders, while building the collections (duplicate slugs,
+//   pages without a title…), via `acceptEntry`
+// - `checkContentIntegrity()` in content-integrity.ts, which cross-checks the
+//   finished collections (module lessons that don't exist, links between
+//   herramientas…)
+//
+// The content-integrity integration prints them all at the end of the build
+// and fails it if any is an error. Warnings are soft: the page still works,
+// but something is probably not what the author meant.
+//
+// No `astro:content` imports here: the integration loads this module too.
+// ---------------------------------------------------------------------------
+
+export type IssueLevel = 'error' | 'warning';
+
+export interface ContentIssue {
+  level: IssueLevel;
+  /** Collection the offending entry belongs to */
+  collection: string;
+  /** Entry id (slug), or Notion page id when the entry has no usable slug */
+  id: string;
+  message: string;
+}
+
+// Lives on globalThis: loaders and prerendered pages run in separate module
+// instances but report into one list (see src/integrations/content-integrity.ts)
+const ISSUES_KEY = Symbol.for('aprendenotion.content-issues');
+
+export function getContentIssues(): ContentIssue[] {
+  const g = globalThis as any;
+  if (!g[ISSUES_KEY]) g[ISSUES_KEY] = [];
+  return g[ISSUES_KEY];
+}
+
+export function reportContentIssue(issue: ContentIssue) {
+  const list = getContentIssues();
+  const seen = list.some(
+    (i) => i.collection === issue.collection && i.id === issue.id && i.message === issue.message,
+  );
+  if (!seen) list.push(issue);
+}
+
+/**
+ * Drop the issues a loader reported on its previous run (dev reloads), or
+ * only those that `match`.
+ */
+export function clearContentIssues(collection: string, match?: (issue: ContentIssue) => boolean) {
+  const list = getContentIssues();
+  for (let i = list.length - 1; i >= 0; i--) {
+    if (list[i].collection === collection && (!match || match(list[i]))) list.splice(i, 1);
+  }
+}
+
+export function formatContentIssues(issues: ContentIssue[]): string {
+  const byCollection = new Map<string, ContentIssue[]>();
+  for (const issue of issues) {
+    if (!byCollection.has(issue.collection)) byCollection.set(issue.collection, []);
+    byCollection.get(issue.collection)!.push(issue);
+  }
+
+  const lines: string[] = [];
+  for (const [collection, list] of byCollection) {
+    lines.push(`  ${collection}:`);
+    for (const issue of list) {
+      const tag = issue.level === 'error' ? 'error  ' : 'warning';
+      lines.push(`    ${tag} ${issue.id}: ${issue.message}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Loader helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether a Notion page can become an entry of `collection`. Pages without a
+ * title and pages whose slug is already taken are reported and skipped
+ * instead of publishing an empty page or overwriting another entry.
+ */
+export function acceptEntry(
+  collection: string,
+  seen: Map<string, string>,
+  entry: { slug: string; title: string; pageId: string },
+): boolean {
+  if (!entry.title.trim()) {
+    reportContentIssue({
+      level: 'error',
+      collection,
+      id: entry.slug || entry.pageId,
+      message: `Notion page ${entry.pageId} has no title`,
+    });
+    return false;
+  }
+
+  if (!entry.slug) {
+    reportContentIssue({
+      level: 'error',
+      collection,
+      id: entry.pageId,
+      message: `"${entry.title}" has no usable slug (set the Slug property)`,
+    });
+    return false;
+  }
+
+  const owner = seen.get(entry.slug);
+  if (owner) {
+    reportContentIssue({
+      level: 'error',
+      collection,
+      id: entry.slug,
+      message: `Notion pages ${owner} and ${entry.pageId} share this slug; only the first is published`,
+    });
+    return false;
+  }
+
+  seen.set(entry.slug, entry.pageId);
+  return true;
+}
@@ -1,87 +1,106 @@
 // ---------------------------------------------------------------------------
-// Definición de módulos del curso
+// Módulos del curso
 // ---------------------------------------------------------------------------
-// Cada módulo agrupa lecciones por tema. Los slugs de lección deben coincidir
-// con los IDs de la colección 'lessons' (que vienen de Notion).
-// Para añadir un módulo o reorganizar lecciones, edita este archivo.
+// La estructura del curso vive en Notion, en la colección 'modules'
+// (ver content.config.ts):
+//   - Si existe la base de datos de módulos (NOTION_MODULES_DB), cada página
+//     es un módulo con Título, Slug, Emoji, Descripción y Orden.
+//   - Si no, los módulos se derivan de las propiedades Módulo + Orden de
+//     cada lección.
+// En ambos casos las lecciones de un módulo son las que tienen su nombre en
+// la propiedad Módulo, ordenadas por Orden. Para reorganizar el curso basta
+// con cambiar esas propiedades en Notion.
+//
+// En otros idiomas el curso tiene la misma estructura (ver src/lib/i18n.ts):
+// cada lección es su traducción o, si no la hay, la lección en español, y
+// los módulos llevan su título y descripción traducidos si los tienen. Las
+// lecciones se identifican siempre por su slug en español, también en el
+// progreso guardado en el navegador.
 // ---------------------------------------------------------------------------
 
+import { getCollection, type CollectionEntry } from 'astro:content';
+import { DEFAULT_LOCALE, entryPath, localizePath, type Locale } from './i18n';
+import type { CourseOutline } from './progress';
+
 export interface CourseModule {
   slug: string;
   emoji: string;
   title: string;
   description: string;
   lessonSlugs: string[];
+  /** Ruta a la que lleva: su única lección o su página intermedia */
+  href: string;
+  /** false si no está traducido a este idioma (va en español) */
+  translated: boolean;
+}
+
+/** Una lección del curso en un idioma. */
+export interface CourseLesson {
+  /** Slug de la lección en español: el de lessonSlugs y el progreso */
+  slug: string;
+  /** La traducción o, si no la hay, la lección en español */
+  entry: CollectionEntry<'lessons'>;
+  href: string;
+  translated: boolean;
+}
+
+/** Lecciones del curso en un idioma, por su slug en español. */
+export async function getCourseLessons(locale: Locale = DEFAULT_LOCALE): Promise<Map<string, CourseLesson>> {
+  const lessons = await getCollection('lessons');
+  // La intro de un módulo se ve en la página del módulo, que lleva su slug en español
+  const intros = new Set((await getCollection('modules')).filter((m) => m.data.lessonSlugs.length > 1).map((m) => m.id));
+  const course = new Map<string, CourseLesson>();
+  for (const original of lessons) {
+    if (original.data.locale !== DEFAULT_LOCALE) continue;
+    const translation = locale === DEFAULT_LOCALE
+      ? original
+      : lessons.find((l) => l.data.locale === locale && l.data.translationOf === original.data.notionId);
+    course.set(original.id, {
+      slug: original.id,
+      entry: translation ?? original,
+      href: translation && !intros.has(original.id)
+        ? entryPath('curso', translation.id)
+        : localizePath(`/curso/${original.id}`, locale),
+      translated: Boolean(translation),
+    });
+  }
+  return course;
 }
 
-export const COURSE_MODULES: CourseModule[] = [
-  {
-    slug: 'introduccion-espacio-trabajo',
-    emoji: '✏️',
-    title: 'Introducción al espacio de trabajo',
-    description:
-      'Familiarízate con la interfaz de Notion: la barra lateral, el editor, navegación y todas las herramientas disponibles.',
-    lessonSlugs: ['introduccion-espacio-trabajo'],
-  },
-  {
-    slug: 'paginas-bloques',
-    emoji: '🧱',
-    title: 'Páginas y Bloques',
-    description:
-      'Domina los elementos fundamentales de Notion: páginas, subpáginas, bloques de contenido y estilos de texto.',
-    lessonSlugs: ['paginas-bloques'],
-  },
-  {
-    slug: 'bases-datos',
-    emoji: '📊',
-    title: 'Bases de Datos',
-    description:
-      'La funcionalidad más potente de Notion: crea bases de datos, añade propiedades, filtra, ordena y visualiza tus datos.',
-    lessonSlugs: [
-      'introduccion-bases-datos',
-      'filtros-ordenacion',
-      'vistas-bases-datos',
-      'templates',
-      'nuevas-bases-de-datos',
-    ],
-  },
-  {
-    slug: 'relations-rollups',
-    emoji: '🕸️',
-    title: 'Relations & Rollups',
-    description:
-      'Conecta bases de datos entre sí con Relations y extrae información con Rollups para crear sistemas más potentes.',
-    lessonSlugs: ['relations', 'rollups'],
-  },
-  {
-    slug: 'formulas',
-    emoji: '➗',
-    title: 'Fórmulas',
-    description:
-      'Calcula, transforma y automatiza datos con fórmulas: desde lo básico hasta barras de progreso personalizadas.',
-    lessonSlugs: [
-      'introduccion-formulas',
-      'formulas-avanzadas',
-      'barras-de-progreso-notion',
-    ],
-  },
-  {
-    slug: 'api-notion',
-    emoji: '🔌',
-    title: 'La API de Notion',
-    description:
-      'Conecta Notion con otras herramientas y automatiza flujos de trabajo usando la API pública.',
-    lessonSlugs: ['crear-integraciones-api-notion'],
-  },
-];
+/** Módulos del curso, en orden. */
+export async function getCourseModules(locale: Locale = DEFAULT_LOCALE): Promise<CourseModule[]> {
+  const entries = await getCollection('modules');
+  const lessons = await getCourseLessons(locale);
+  return entries
+    .sort((a, b) => a.data.order - b.data.order)
+    .map((entry) => {
+      const translation = locale === DEFAULT_LOCALE ? entry.data : entry.data.translations[locale];
+      const { lessonSlugs } = entry.data;
+      return {
+        slug: entry.id,
+        emoji: entry.data.emoji,
+        title: translation?.title || entry.data.title,
+        description: translation?.description || entry.data.description,
+        lessonSlugs,
+        // Un módulo de una sola lección lleva directo a ella
+        href: lessonSlugs.length === 1
+          ? lessons.get(lessonSlugs[0])?.href ?? localizePath(`/curso/${lessonSlugs[0]}`, locale)
+          : localizePath(`/curso/${entry.id}`, locale),
+        translated: Boolean(translation),
+      };
+    });
+}
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
 /** Devuelve el módulo al que pertenece una lección, o undefined. */
-export function getModuleForLesson(lessonSlug: string): CourseModule | undefined {
-  return COURSE_MODULES.find((m) => m.lessonSlugs.includes(lessonSlug));
+export function getModuleForLesson(
+  lessonSlug: string,
+  modules: CourseModule[],
+): CourseModule | undefined {
+  return modules.find((m) => m.lessonSlugs.includes(lessonSlug));
 }
 
 /** ¿Es un módulo con una sola lección? (clic va directo a la lección) */
@@ -89,9 +108,9 @@ export function isSingleLessonModule(mod: CourseModule): boolean {
   return mod.lessonSlugs.length === 1;
 }
 
-/** Índice del módulo en el array (0-based). */
-export function getModuleIndex(moduleSlug: string): number {
-  return COURSE_MODULES.findIndex((m) => m.slug === moduleSlug);
+/** Índice del módulo en la lista (0-based). */
+export function getModuleIndex(moduleSlug: string, modules: CourseModule[]): number {
+  return modules.findIndex((m) => m.slug === moduleSlug);
 }
 
 /** Posición de una lección dentro de su módulo (0-based). */
@@ -103,8 +122,32 @@ export function getLessonPositionInModule(
 }
 
 /** Slugs de módulos que tienen página intermedia (>1 lección). */
-export function getMultiLessonModuleSlugs(): string[] {
-  return COURSE_MODULES.filter((m) => !isSingleLessonModule(m)).map(
-    (m) => m.slug,
-  );
+export function getMultiLessonModuleSlugs(modules: CourseModule[]): string[] {
+  return modules.filter((m) => !isSingleLessonModule(m)).map((m) => m.slug);
+}
+
+/** Slugs con página propia en /curso/ (o /en/curso/…): lecciones y módulos. */
+export async function getCourseRouteSlugs(locale: Locale = DEFAULT_LOCALE): Promise<Set<string>> {
+  const lessons = await getCourseLessons(locale);
+  const modules = await getCourseModules(locale);
+  const slugs = [...lessons.values()].map((lesson) => lesson.href.split('/').pop()!);
+  return new Set([...slugs, ...modules.map((m) => m.slug)]);
+}
+
+/**
+ * Índice del curso para el progreso en el navegador (src/lib/progress.ts):
+ * cada módulo con sus lecciones publicadas, en orden.
+ */
+export async function getCourseOutline(locale: Locale = DEFAULT_LOCALE): Promise<CourseOutline> {
+  const lessons = await getCourseLessons(locale);
+  const modules = await getCourseModules(locale);
+  return modules.map((mod) => ({
+    slug: mod.slug,
+    title: mod.title,
+    href: mod.href,
+    lessons: mod.lessonSlugs.flatMap((slug) => {
+      const lesson = lessons.get(slug);
+      return lesson ? [{ slug, title: lesson.entry.data.title, href: lesson.href }] : [];
+    }),
+  }));
 }
@@ -0,0 +1,229 @@
+// ---------------------------------------------------------------------------
+// Feeds del blog y del curso — RSS 2.0, Atom y JSON Feed
+// ---------------------------------------------------------------------------
+// Cada entrada lleva el artículo completo (no solo la descripción), pasado a
+// HTML desde su árbol de bloques con notion-html.ts (los posts MDX, con el
+// container de Astro). Los tres formatos salen del mismo modelo `Feed`; los
+// endpoints están en src/pages/blog/ y src/pages/curso/.
+// ---------------------------------------------------------------------------
+
+import { getCollection, render, type CollectionEntry } from 'astro:content';
+import { experimental_AstroContainer as AstroContainer } from 'astro/container';
+import { loadRenderers } from 'astro:container';
+import { getContainerRenderer } from '@astrojs/mdx';
+import { getBlocks } from './notion';
+import { blocksToHtml, escapeHtml } from './notion-html';
+import { isDraft } from './preview';
+import { DEFAULT_LOCALE, inLocale } from './i18n';
+
+const AUTHOR = { name: 'Elena Madrigal', url: 'https://elenamadrigal.com' };
+
+export interface FeedItem {
+  /** URL absoluta de la página (también su id) */
+  url: string;
+  title: string;
+  description: string;
+  /** Contenido completo en HTML */
+  html: string;
+  /** Fecha ISO 8601 */
+  date: string;
+  categories: string[];
+  /** Imagen de portada, URL absoluta */
+  image?: string;
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  /** Página HTML del feed (p. ej. /blog) */
+  url: string;
+  /** URLs de los tres formatos, para los enlaces rel="self" */
+  links: { rss: string; atom: string; json: string };
+  items: FeedItem[];
+}
+
+/** Rutas de los feeds, para los <link rel="alternate"> de BaseLayout. */
+export const FEED_PATHS = {
+  blog: { rss: '/blog/rss.xml', atom: '/blog/atom.xml', json: '/blog/feed.json' },
+  curso: { rss: '/curso/rss.xml', atom: '/curso/atom.xml', json: '/curso/feed.json' },
+};
+
+type FeedName = keyof typeof FEED_PATHS;
+
+function absolute(path: string, site: URL): string {
+  return new URL(path, site).href;
+}
+
+/** Fecha ISO de un publishDate "2024-03-01" (o ya ISO). */
+function isoDate(date: string): string {
+  const parsed = new Date(date);
+  return Number.isNaN(parsed.getTime()) ? new Date().toISOString() : parsed.toISOString();
+}
+
+let container: Promise<AstroContainer> | undefined;
+
+/** HTML de un post MDX, con los enlaces e imágenes en URLs absolutas. */
+async function mdxHtml(post: CollectionEntry<'blog'>, site: URL): Promise<string> {
+  container ??= loadRenderers([getContainerRenderer()]).then((renderers) => AstroContainer.create({ renderers }));
+  const { Content } = await render(post);
+  const html = await (await container).renderToString(Content);
+  return html.replace(/\b(href|src)="(\/(?!\/)[^"]*)"/g, (_, attr, path) => `${attr}="${absolute(path, site)}"`);
+}
+
+function withCover(body: string, image: string | undefined, title: string): string {
+  const cover = image ? `<p><img src="${escapeHtml(image)}" alt="${escapeHtml(title)}"></p>\n` : '';
+  return cover + body;
+}
+
+async function itemHtml(notionId: string | undefined, site: URL, image: string | undefined, title: string): Promise<string> {
+  return withCover(notionId ? await blocksToHtml(await getBlocks(notionId), { site }) : '', image, title);
+}
+
+function feedLinks(name: FeedName, site: URL): Feed['links'] {
+  const paths = FEED_PATHS[name];
+  return { rss: absolute(paths.rss, site), atom: absolute(paths.atom, site), json: absolute(paths.json, site) };
+}
+
+export async function getBlogFeed(site: URL): Promise<Feed> {
+  // Los borradores (modo preview) no se anuncian; los feeds son los del sitio en español
+  const posts = (await getCollection('blog', inLocale(DEFAULT_LOCALE)))
+    .filter((post) => !isDraft(post.data))
+    .sort((a, b) => new Date(b.data.publishDate).getTime() - new Date(a.data.publishDate).getTime());
+
+  const items: FeedItem[] = [];
+  for (const post of posts) {
+    const image = post.data.coverImage ? absolute(post.data.coverImage, site) : undefined;
+    items.push({
+      url: absolute(`/blog/${post.id}`, site),
+      title: post.data.title,
+      description: post.data.description,
+      html: post.filePath
+        ? withCover(await mdxHtml(post, site), image, post.data.title)
+        : await itemHtml(post.data.notionId, site, image, post.data.title),
+      date: isoDate(post.data.publishDate),
+      categories: [post.data.category],
+      image,
+    });
+  }
+
+  return {
+    title: 'Blog — Aprende Notion',
+    description: 'Artículos, tutoriales y recursos sobre Notion.',
+    url: absolute('/blog', site),
+    links: feedLinks('blog', site),
+    items,
+  };
+}
+
+/** Lecciones nuevas del curso, de la más reciente a la más antigua. */
+export async function getCourseFeed(site: URL): Promise<Feed> {
+  const lessons = (await getCollection('lessons', inLocale(DEFAULT_LOCALE)))
+    .filter((lesson) => lesson.data.createdAt && !isDraft(lesson.data))
+    .sort((a, b) => b.data.createdAt!.localeCompare(a.data.createdAt!));
+
+  const items: FeedItem[] = [];
+  for (const lesson of lessons) {
+    const image = lesson.data.coverImage ? absolute(lesson.data.coverImage, site) : undefined;
+    items.push({
+      url: absolute(`/curso/${lesson.id}`, site),
+      title: lesson.data.title,
+      description: lesson.data.description,
+      html: await itemHtml(lesson.data.notionId, site, image, lesson.data.title),
+      date: isoDate(lesson.data.createdAt!),
+      categories: [lesson.data.module],
+      image,
+    });
+  }
+
+  return {
+    title: 'Curso de Notion — Aprende Notion',
+    description: 'Lecciones nuevas del curso gratuito de Notion.',
+    url: absolute('/curso', site),
+    links: feedLinks('curso', site),
+    items,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Formatos
+// ---------------------------------------------------------------------------
+
+function latestDate(feed: Feed): string {
+  return feed.items[0]?.date ?? new Date().toISOString();
+}
+
+export function toRss(feed: Feed): string {
+  const items = feed.items.map((item) => `    <item>
+      <title>${escapeHtml(item.title)}</title>
+      <link>${escapeHtml(item.url)}</link>
+      <guid isPermaLink="true">${escapeHtml(item.url)}</guid>
+      <pubDate>${new Date(item.date).toUTCString()}</pubDate>
+      <dc:creator>${escapeHtml(AUTHOR.name)}</dc:creator>
+${item.categories.map((c) => `      <category>${escapeHtml(c)}</category>\n`).join('')}      <description>${escapeHtml(item.description)}</description>
+      <content:encoded>${escapeHtml(item.html)}</content:encoded>
+    </item>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeHtml(feed.title)}</title>
+    <link>${escapeHtml(feed.url)}</link>
+    <description>${escapeHtml(feed.description)}</description>
+    <language>es</language>
+    <lastBuildDate>${new Date(latestDate(feed)).toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeHtml(feed.links.rss)}" rel="self" type="application/rss+xml" />
+${items.join('\n')}
+  </channel>
+</rss>
+`;
+}
+
+export function toAtom(feed: Feed): string {
+  const entries = feed.items.map((item) => `  <entry>
+    <title>${escapeHtml(item.title)}</title>
+    <link href="${escapeHtml(item.url)}" />
+    <id>${escapeHtml(item.url)}</id>
+    <published>${item.date}</published>
+    <updated>${item.date}</updated>
+${item.categories.map((c) => `    <category term="${escapeHtml(c)}" />\n`).join('')}    <summary>${escapeHtml(item.description)}</summary>
+    <content type="html">${escapeHtml(item.html)}</content>
+  </entry>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="es">
+  <title>${escapeHtml(feed.title)}</title>
+  <subtitle>${escapeHtml(feed.description)}</subtitle>
+  <link href="${escapeHtml(feed.url)}" />
+  <link href="${escapeHtml(feed.links.atom)}" rel="self" type="application/atom+xml" />
+  <id>${escapeHtml(feed.url)}</id>
+  <updated>${latestDate(feed)}</updated>
+  <author>
+    <name>${escapeHtml(AUTHOR.name)}</name>
+    <uri>${escapeHtml(AUTHOR.url)}</uri>
+  </author>
+${entries.join('\n')}
+</feed>
+`;
+}
+
+export function toJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.url,
+    feed_url: feed.links.json,
+    language: 'es',
+    authors: [AUTHOR],
+    items: feed.items.map((item) => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      summary: item.description,
+      content_html: item.html,
+      image: item.image,
+      date_published: item.date,
+      tags: item.categories,
+    })),
+  }, null, 2);
+}
@@ -0,0 +1,866 @@
+// ---------------------------------------------------------------------------
+// Fórmulas de Notion — resaltado, parser y evaluador
+// ---------------------------------------------------------------------------
+// La sintaxis de Formulas 2.0: prop("Nombre"), operadores (+, ==, and, ? :),
+// listas [1, 2], llamadas encadenadas (prop("Etiquetas").map(current + "!")),
+// let/lets y las funciones que salen en el curso. CodeBlock.astro resalta
+// con tokenizeFormula() los bloques de código en "notion formula", y
+// FormulaPlayground.astro evalúa la fórmula con runFormula() contra una tabla
+// de ejemplo de la lección: en el build y, al editarla, en el navegador (por
+// eso este módulo no importa nada del servidor).
+// ---------------------------------------------------------------------------
+
+import type { BlockObjectResponse } from '@notionhq/client/build/src/api-endpoints';
+
+export type FormulaValue = string | number | boolean | Date | FormulaValue[] | null;
+
+// ---------------------------------------------------------------------------
+// Tokens (también para el resaltado: cubren la fórmula entera, sin fallar)
+// ---------------------------------------------------------------------------
+
+export type FormulaTokenType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'keyword'
+  | 'function'
+  | 'property'
+  | 'variable'
+  | 'operator'
+  | 'punctuation'
+  | 'comment'
+  | 'space'
+  | 'invalid';
+
+export interface FormulaToken {
+  type: FormulaTokenType;
+  text: string;
+  start: number;
+  end: number;
+  /** Texto de un string, sin comillas ni escapes */
+  value?: string;
+}
+
+const OPERATORS = ['==', '!=', '>=', '<=', '&&', '||', '>', '<', '+', '-', '*', '/', '%', '^', '!', '?', ':'];
+const PUNCTUATION = '()[],.';
+const KEYWORDS = new Set(['and', 'or', 'not', 'current', 'index']);
+// Comillas de cierre; las tipográficas salen al copiar de Notion o de un doc
+const QUOTES: Record<string, string> = { '"': '"', '“': '”"' };
+
+export function tokenizeFormula(source: string): FormulaToken[] {
+  const tokens: FormulaToken[] = [];
+  let i = 0;
+  const push = (type: FormulaTokenType, end: number, value?: string) => {
+    tokens.push({ type, text: source.slice(i, end), start: i, end, value });
+    i = end;
+  };
+
+  while (i < source.length) {
+    const rest = source.slice(i);
+    const char = source[i];
+    let match: RegExpExecArray | null;
+
+    if ((match = /^\s+/.exec(rest))) {
+      push('space', i + match[0].length);
+    } else if (rest.startsWith('/*')) {
+      const close = source.indexOf('*/', i + 2);
+      push(close < 0 ? 'invalid' : 'comment', close < 0 ? source.length : close + 2);
+    } else if (char in QUOTES) {
+      let j = i + 1;
+      let value = '';
+      while (j < source.length && !QUOTES[char].includes(source[j])) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          const escaped = source[j + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          j += 2;
+        } else {
+          value += source[j++];
+        }
+      }
+      if (j < source.length) push('string', j + 1, value);
+      else push('invalid', source.length);
+    } else if ((match = /^\d+(\.\d+)?([eE][+-]?\d+)?/.exec(rest))) {
+      push('number', i + match[0].length);
+    } else if ((match = /^[\p{L}_][\p{L}\p{N}_]*/u.exec(rest))) {
+      const word = match[0];
+      push(word === 'true' || word === 'false' ? 'boolean' : KEYWORDS.has(word) ? 'keyword' : 'variable', i + word.length);
+    } else {
+      const operator = OPERATORS.find((op) => rest.startsWith(op));
+      if (operator) push('operator', i + operator.length);
+      else push(PUNCTUATION.includes(char) ? 'punctuation' : 'invalid', i + 1);
+    }
+  }
+
+  // Nombres seguidos de "(" son funciones; el string de prop("…"), la propiedad.
+  // and/or también son funciones donde no pueden ser operadores: and(a, b)
+  const code = tokens.filter((t) => t.type !== 'space' && t.type !== 'comment');
+  code.forEach((token, n) => {
+    const prev = code[n - 1];
+    const canBeCall =
+      token.type === 'variable' ||
+      ((token.text === 'and' || token.text === 'or') &&
+        (!prev || prev.type === 'operator' || (prev.type === 'punctuation' && prev.text !== ')' && prev.text !== ']')));
+    if (canBeCall && code[n + 1]?.text === '(') {
+      token.type = 'function';
+      if (token.text === 'prop' && code[n + 2]?.type === 'string') code[n + 2].type = 'property';
+    }
+  });
+  return tokens;
+}
+
+/** Clase del token en el HTML (colores en global.css); marca la parte con error. */
+export function formulaTokenClass(token: FormulaToken, issue?: FormulaIssue): string {
+  const inIssue = issue && token.type !== 'space' && token.start < Math.max(issue.end, issue.start + 1) && token.end > issue.start;
+  return `formula-token--${token.type}${inIssue ? ' formula-token--error' : ''}`;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+/** Error de sintaxis o de evaluación, con la parte de la fórmula donde está. */
+export class FormulaError extends Error {
+  constructor(
+    message: string,
+    readonly start: number,
+    readonly end: number,
+  ) {
+    super(message);
+    this.name = 'FormulaError';
+  }
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+export type FormulaNode = Span &
+  (
+    | { kind: 'literal'; value: FormulaValue }
+    | { kind: 'list'; items: FormulaNode[] }
+    | { kind: 'variable'; name: string }
+    | { kind: 'call'; name: string; args: FormulaNode[] }
+    | { kind: 'unary'; operator: string; argument: FormulaNode }
+    | { kind: 'binary'; operator: string; left: FormulaNode; right: FormulaNode }
+    | { kind: 'conditional'; test: FormulaNode; then: FormulaNode; otherwise: FormulaNode }
+  );
+
+const BINARY_LEVELS = [
+  ['or', '||'],
+  ['and', '&&'],
+  ['==', '!='],
+  ['>', '>=', '<', '<='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+export function parseFormula(source: string): FormulaNode {
+  const tokens = tokenizeFormula(source).filter((t) => t.type !== 'space' && t.type !== 'comment');
+  let pos = 0;
+
+  const isSymbol = (token: FormulaToken | undefined, ...symbols: string[]) =>
+    Boolean(token) && ['operator', 'punctuation', 'keyword'].includes(token!.type) && symbols.includes(token!.text);
+
+  function fail(message: string): never {
+    const token = tokens[pos];
+    if (!token) throw new FormulaError(`${message} al final de la fórmula`, source.length, source.length);
+    if (token.type === 'invalid') {
+      const problem = token.text.startsWith('/*')
+        ? 'Falta cerrar el comentario con */'
+        : token.text[0] in QUOTES
+          ? 'Faltan las comillas de cierre'
+          : `No se entiende "${token.text}"`;
+      throw new FormulaError(problem, token.start, token.end);
+    }
+    throw new FormulaError(`${message}, no "${token.text}"`, token.start, token.end);
+  }
+
+  function expect(symbol: string): FormulaToken {
+    if (!isSymbol(tokens[pos], symbol)) fail(`Se esperaba "${symbol}"`);
+    return tokens[pos++];
+  }
+
+  function args(close: string): FormulaNode[] {
+    const list: FormulaNode[] = [];
+    if (isSymbol(tokens[pos], close)) return list;
+    for (;;) {
+      list.push(conditional());
+      if (!isSymbol(tokens[pos], ',')) return list;
+      pos++;
+    }
+  }
+
+  function conditional(): FormulaNode {
+    const test = binary(0);
+    if (!isSymbol(tokens[pos], '?')) return test;
+    pos++;
+    const then = conditional();
+    expect(':');
+    const otherwise = conditional();
+    return { kind: 'conditional', test, then, otherwise, start: test.start, end: otherwise.end };
+  }
+
+  function binary(level: number): FormulaNode {
+    if (level === BINARY_LEVELS.length) return unary();
+    let left = binary(level + 1);
+    while (isSymbol(tokens[pos], ...BINARY_LEVELS[level])) {
+      const operator = tokens[pos++].text;
+      const right = binary(level + 1);
+      left = { kind: 'binary', operator, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  function unary(): FormulaNode {
+    const token = tokens[pos];
+    if (isSymbol(token, '-', '+', '!', 'not')) {
+      pos++;
+      const argument = unary();
+      return { kind: 'unary', operator: token.text, argument, start: token.start, end: argument.end };
+    }
+    return power();
+  }
+
+  function power(): FormulaNode {
+    const base = postfix();
+    if (!isSymbol(tokens[pos], '^')) return base;
+    pos++;
+    const exponent = unary();
+    return { kind: 'binary', operator: '^', left: base, right: exponent, start: base.start, end: exponent.end };
+  }
+
+  // valor.funcion(args) es funcion(valor, args)
+  function postfix(): FormulaNode {
+    let node = primary();
+    while (isSymbol(tokens[pos], '.')) {
+      pos++;
+      const name = tokens[pos];
+      if (name?.type !== 'function') fail('Se esperaba una función después de "."');
+      pos++;
+      expect('(');
+      const rest = args(')');
+      const close = expect(')');
+      node = { kind: 'call', name: name.text, args: [node, ...rest], start: node.start, end: close.end };
+    }
+    return node;
+  }
+
+  function primary(): FormulaNode {
+    const token = tokens[pos];
+    if (!token) fail('Se esperaba un valor');
+    const span = { start: token.start, end: token.end };
+
+    switch (token.type) {
+      case 'number':
+        pos++;
+        return { kind: 'literal', value: Number(token.text), ...span };
+      case 'string':
+      case 'property':
+        pos++;
+        return { kind: 'literal', value: token.value!, ...span };
+      case 'boolean':
+        pos++;
+        return { kind: 'literal', value: token.text === 'true', ...span };
+      case 'function': {
+        pos++;
+        expect('(');
+        const list = args(')');
+        const close = expect(')');
+        return { kind: 'call', name: token.text, args: list, start: token.start, end: close.end };
+      }
+      case 'variable':
+        pos++;
+        return { kind: 'variable', name: token.text, ...span };
+      case 'keyword':
+        if (token.text === 'current' || token.text === 'index') {
+          pos++;
+          return { kind: 'variable', name: token.text, ...span };
+        }
+        break;
+      case 'punctuation':
+        if (token.text === '(') {
+          pos++;
+          const inner = conditional();
+          expect(')');
+          return inner;
+        }
+        if (token.text === '[') {
+          pos++;
+          const items = args(']');
+          const close = expect(']');
+          return { kind: 'list', items, start: token.start, end: close.end };
+        }
+        break;
+    }
+    fail('Se esperaba un valor');
+  }
+
+  if (tokens.length === 0) throw new FormulaError('La fórmula está vacía', 0, source.length);
+  const node = conditional();
+  if (pos < tokens.length) fail('Se esperaba el final de la fórmula');
+  return node;
+}
+
+// ---------------------------------------------------------------------------
+// Valores
+// ---------------------------------------------------------------------------
+
+const MONTHS = ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'];
+const WEEKDAYS = ['domingo', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábado'];
+
+function describe(value: FormulaValue): string {
+  if (value === null) return 'un valor vacío';
+  if (Array.isArray(value)) return 'una lista';
+  if (value instanceof Date) return 'una fecha';
+  if (typeof value === 'number') return 'un número';
+  if (typeof value === 'boolean') return 'un booleano';
+  return 'un texto';
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+function hasTime(date: Date): boolean {
+  return date.getHours() !== 0 || date.getMinutes() !== 0 || date.getSeconds() !== 0;
+}
+
+/** El texto de un valor, como format() en Notion. */
+export function formatValue(value: FormulaValue): string {
+  if (value === null) return '';
+  if (Array.isArray(value)) return value.map(formatValue).join(', ');
+  if (value instanceof Date) {
+    const day = `${value.getDate()} de ${MONTHS[value.getMonth()]} de ${value.getFullYear()}`;
+    return hasTime(value) ? `${day} ${pad(value.getHours())}:${pad(value.getMinutes())}` : day;
+  }
+  // Sin los decimales de la coma flotante (0.1 + 0.2)
+  if (typeof value === 'number') return String(Number(value.toPrecision(15)));
+  return String(value);
+}
+
+/** Como se ve el resultado en una tabla: los booleanos, como casillas. */
+export function displayValue(value: FormulaValue): string {
+  if (typeof value === 'boolean') return value ? '☑' : '☐';
+  return formatValue(value);
+}
+
+/** "2026-10-18" o "2026-10-18 14:30" (hora local); null si no es una fecha. */
+export function parseDateText(text: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/.exec(text.trim());
+  if (!match) return null;
+  const [, y, mo, d, h = '0', mi = '0', s = '0'] = match;
+  const date = new Date(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s));
+  return Number.isNaN(date.getTime()) || date.getDate() !== Number(d) ? null : date;
+}
+
+/**
+ * Una celda de la tabla de ejemplo: vacía, true/false, número, fecha
+ * (2026-10-18), lista ([a, b]) o, si no es nada de eso, texto.
+ */
+export function parseSampleValue(text: string): FormulaValue {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  if (trimmed === 'true' || trimmed === 'false') return trimmed === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+  if (trimmed.startsWith('[') && trimmed.endsWith(']')) {
+    const inner = trimmed.slice(1, -1).trim();
+    return inner ? inner.split(',').map((item) => parseSampleValue(item.trim().replace(/^"(.*)"$/, '$1'))) : [];
+  }
+  return parseDateText(trimmed) ?? trimmed;
+}
+
+function isEqual(a: FormulaValue, b: FormulaValue): boolean {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  return a === b;
+}
+
+function compare(a: FormulaValue, b: FormulaValue): number {
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'string' && typeof b === 'string') return a.localeCompare(b, 'es');
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  return formatValue(a).localeCompare(formatValue(b), 'es');
+}
+
+function isEmpty(value: FormulaValue): boolean {
+  return value === null || value === '' || value === 0 || value === false || (Array.isArray(value) && value.length === 0);
+}
+
+// ---------------------------------------------------------------------------
+// Fechas
+// ---------------------------------------------------------------------------
+
+const DATE_UNITS = ['years', 'quarters', 'months', 'weeks', 'days', 'hours', 'minutes', 'seconds', 'milliseconds'];
+const UNIT_MS: Record<string, number> = {
+  weeks: 7 * 24 * 3600e3,
+  days: 24 * 3600e3,
+  hours: 3600e3,
+  minutes: 60e3,
+  seconds: 1e3,
+  milliseconds: 1,
+};
+
+/** "days" o "day" → "days"; null si no es una unidad de fecha. */
+function dateUnit(unit: string): string | null {
+  const plural = unit.endsWith('s') ? unit : `${unit}s`;
+  return DATE_UNITS.includes(plural) ? plural : null;
+}
+
+function addToDate(date: Date, amount: number, unit: string): Date {
+  const result = new Date(date);
+  if (unit === 'years' || unit === 'quarters' || unit === 'months') {
+    // 31 de enero + 1 mes = 28 de febrero (no 3 de marzo)
+    const day = result.getDate();
+    result.setDate(1);
+    result.setMonth(result.getMonth() + amount * (unit === 'years' ? 12 : unit === 'quarters' ? 3 : 1));
+    result.setDate(Math.min(day, new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate()));
+  } else if (unit === 'weeks' || unit === 'days') {
+    result.setDate(result.getDate() + amount * (unit === 'weeks' ? 7 : 1));
+  } else {
+    result.setTime(result.getTime() + amount * UNIT_MS[unit]);
+  }
+  return result;
+}
+
+// Días y horas "de calendario": un cambio de horario no quita una hora a un día
+const wallClock = (d: Date) =>
+  Date.UTC(d.getFullYear(), d.getMonth(), d.getDate(), d.getHours(), d.getMinutes(), d.getSeconds(), d.getMilliseconds());
+
+/** a − b en la unidad, sin contar la parte incompleta (como dateBetween). */
+function dateDiff(a: Date, b: Date, unit: string): number {
+  if (unit === 'years' || unit === 'quarters' || unit === 'months') {
+    let months = (a.getFullYear() - b.getFullYear()) * 12 + (a.getMonth() - b.getMonth());
+    const rest = wallClock(addToDate(b, months, 'months'));
+    if (months > 0 && rest > wallClock(a)) months--;
+    if (months < 0 && rest < wallClock(a)) months++;
+    return Math.trunc(months / (unit === 'years' ? 12 : unit === 'quarters' ? 3 : 1));
+  }
+  return Math.trunc((wallClock(a) - wallClock(b)) / UNIT_MS[unit]);
+}
+
+const DATE_FORMAT_TOKENS = /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|dddd|ddd|DD|D|HH|H|hh|h|mm|ss|A/g;
+
+/** formatDate(fecha, "D [de] MMMM YYYY"), con los tokens de Notion (moment). */
+function formatDate(date: Date, format: string): string {
+  const hours12 = date.getHours() % 12 || 12;
+  return format.replace(DATE_FORMAT_TOKENS, (token, literal: string | undefined) => {
+    if (literal !== undefined) return literal;
+    switch (token) {
+      case 'YYYY': return String(date.getFullYear());
+      case 'YY': return pad(date.getFullYear() % 100);
+      case 'MMMM': return MONTHS[date.getMonth()];
+      case 'MMM': return MONTHS[date.getMonth()].slice(0, 3);
+      case 'MM': return pad(date.getMonth() + 1);
+      case 'M': return String(date.getMonth() + 1);
+      case 'dddd': return WEEKDAYS[date.getDay()];
+      case 'ddd': return WEEKDAYS[date.getDay()].slice(0, 3);
+      case 'DD': return pad(date.getDate());
+      case 'D': return String(date.getDate());
+      case 'HH': return pad(date.getHours());
+      case 'H': return String(date.getHours());
+      case 'hh': return pad(hours12);
+      case 'h': return String(hours12);
+      case 'mm': return pad(date.getMinutes());
+      case 'ss': return pad(date.getSeconds());
+      default: return date.getHours() < 12 ? 'AM' : 'PM';
+    }
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Evaluador
+// ---------------------------------------------------------------------------
+
+export interface FormulaScope {
+  /** Propiedades de la página: nombre → valor */
+  properties: Record<string, FormulaValue>;
+  /** Para now() y today(); por defecto, el momento de la evaluación */
+  now?: Date;
+}
+
+interface Env {
+  scope: FormulaScope;
+  variables: Map<string, FormulaValue>;
+}
+
+type Call = Extract<FormulaNode, { kind: 'call' }>;
+
+/** Comprobaciones de tipo de los argumentos de una llamada */
+function argumentsOf(call: Call, values: FormulaValue[]) {
+  const wrong = (i: number, expected: string): never => {
+    const node = call.args[i] ?? call;
+    throw new FormulaError(
+      i < values.length
+        ? `${call.name}() espera ${expected}, no ${describe(values[i])}`
+        : `A ${call.name}() le falta un argumento (${expected})`,
+      node.start,
+      node.end,
+    );
+  };
+  return {
+    number: (i: number) => (typeof values[i] === 'number' ? (values[i] as number) : wrong(i, 'un número')),
+    text: (i: number) => (typeof values[i] === 'string' ? (values[i] as string) : wrong(i, 'un texto')),
+    boolean: (i: number) => (typeof values[i] === 'boolean' ? (values[i] as boolean) : wrong(i, 'un booleano')),
+    date: (i: number) => (values[i] instanceof Date ? (values[i] as Date) : wrong(i, 'una fecha')),
+    list: (i: number) => (Array.isArray(values[i]) ? (values[i] as FormulaValue[]) : wrong(i, 'una lista')),
+    unit: (i: number) => {
+      const unit = typeof values[i] === 'string' ? dateUnit(values[i] as string) : null;
+      return unit ?? wrong(i, `una unidad ("${DATE_UNITS.join('", "')}")`);
+    },
+    regex: (i: number, flags = '') => {
+      try {
+        return new RegExp(typeof values[i] === 'string' ? (values[i] as string) : wrong(i, 'un texto'), flags);
+      } catch {
+        return wrong(i, 'una expresión regular válida');
+      }
+    },
+    optional: (i: number) => i < values.length,
+  };
+}
+
+type Args = ReturnType<typeof argumentsOf>;
+
+function flatten(values: FormulaValue[]): FormulaValue[] {
+  return values.flatMap((value) => (Array.isArray(value) ? flatten(value) : [value]));
+}
+
+/** Números sueltos o listas de números: sum(1, 2) y sum([1, 2]) */
+function numbers(call: Call, values: FormulaValue[]): number[] {
+  const flat = flatten(values);
+  return flat.map((_, i) => argumentsOf(call, flat).number(i));
+}
+
+const FUNCTIONS: Record<string, (args: Args, values: FormulaValue[], call: Call, env: Env) => FormulaValue> = {
+  // Lógica
+  not: (a) => !a.boolean(0),
+  empty: (_, v) => isEmpty(v[0] ?? null),
+  equal: (_, v) => isEqual(v[0], v[1]),
+  unequal: (_, v) => !isEqual(v[0], v[1]),
+
+  // Texto
+  length: (a, v) => (Array.isArray(v[0]) ? v[0].length : a.text(0).length),
+  format: (_, v) => formatValue(v[0] ?? null),
+  toNumber: (_, v) => {
+    const value = v[0] ?? null;
+    if (typeof value === 'number') return value;
+    if (typeof value === 'boolean') return Number(value);
+    if (value instanceof Date) return value.getTime();
+    const number = parseFloat(formatValue(value));
+    return Number.isNaN(number) ? null : number;
+  },
+  lower: (a) => a.text(0).toLowerCase(),
+  upper: (a) => a.text(0).toUpperCase(),
+  trim: (a) => a.text(0).trim(),
+  repeat: (a) => a.text(0).repeat(Math.max(0, a.number(1))),
+  substring: (a) => a.text(0).substring(a.number(1), a.optional(2) ? a.number(2) : undefined),
+  contains: (a) => a.text(0).includes(a.text(1)),
+  test: (a) => a.regex(1).test(a.text(0)),
+  match: (a) => a.text(0).match(a.regex(1, 'g')) ?? [],
+  replace: (a) => a.text(0).replace(a.regex(1), a.text(2)),
+  replaceAll: (a) => a.text(0).replace(a.regex(1, 'g'), a.text(2)),
+  split: (a) => a.text(0).split(a.optional(1) ? a.text(1) : ''),
+  join: (a) => a.list(0).map(formatValue).join(a.optional(1) ? a.text(1) : ''),
+  slice: (a, v) =>
+    Array.isArray(v[0])
+      ? v[0].slice(a.number(1), a.optional(2) ? a.number(2) : undefined)
+      : a.text(0).slice(a.number(1), a.optional(2) ? a.number(2) : undefined),
+
+  // Números
+  add: (a) => a.number(0) + a.number(1),
+  subtract: (a) => a.number(0) - a.number(1),
+  multiply: (a) => a.number(0) * a.number(1),
+  divide: (a) => a.number(0) / a.number(1),
+  mod: (a) => a.number(0) % a.number(1),
+  pow: (a) => a.number(0) ** a.number(1),
+  abs: (a) => Math.abs(a.number(0)),
+  sign: (a) => Math.sign(a.number(0)),
+  round: (a) => Math.round(a.number(0)),
+  ceil: (a) => Math.ceil(a.number(0)),
+  floor: (a) => Math.floor(a.number(0)),
+  sqrt: (a) => Math.sqrt(a.number(0)),
+  cbrt: (a) => Math.cbrt(a.number(0)),
+  exp: (a) => Math.exp(a.number(0)),
+  ln: (a) => Math.log(a.number(0)),
+  log10: (a) => Math.log10(a.number(0)),
+  log2: (a) => Math.log2(a.number(0)),
+  pi: () => Math.PI,
+  e: () => Math.E,
+  min: (_, v, call) => Math.min(...numbers(call, v)),
+  max: (_, v, call) => Math.max(...numbers(call, v)),
+  sum: (_, v, call) => numbers(call, v).reduce((total, n) => total + n, 0),
+  mean: (_, v, call) => {
+    const list = numbers(call, v);
+    return list.length ? list.reduce((total, n) => total + n, 0) / list.length : null;
+  },
+  median: (_, v, call) => {
+    const list = numbers(call, v).sort((x, y) => x - y);
+    if (!list.length) return null;
+    const middle = Math.floor(list.length / 2);
+    return list.length % 2 ? list[middle] : (list[middle - 1] + list[middle]) / 2;
+  },
+
+  // Fechas
+  now: (_, __, ___, env) => new Date(env.scope.now ?? Date.now()),
+  today: (_, __, ___, env) => {
+    const now = new Date(env.scope.now ?? Date.now());
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  },
+  year: (a) => a.date(0).getFullYear(),
+  month: (a) => a.date(0).getMonth() + 1,
+  date: (a) => a.date(0).getDate(),
+  // 1 (lunes) … 7 (domingo)
+  day: (a) => a.date(0).getDay() || 7,
+  hour: (a) => a.date(0).getHours(),
+  minute: (a) => a.date(0).getMinutes(),
+  dateAdd: (a) => addToDate(a.date(0), a.number(1), a.unit(2)),
+  dateSubtract: (a) => addToDate(a.date(0), -a.number(1), a.unit(2)),
+  dateBetween: (a) => dateDiff(a.date(0), a.date(1), a.unit(2)),
+  dateStart: (a) => a.date(0),
+  dateEnd: (a) => a.date(0),
+  formatDate: (a) => formatDate(a.date(0), a.text(1)),
+  parseDate: (a, _, call) => {
+    const date = parseDateText(a.text(0));
+    if (!date) throw new FormulaError(`parseDate() espera una fecha ISO ("2026-10-18"), no "${a.text(0)}"`, call.start, call.end);
+    return date;
+  },
+  timestamp: (a) => a.date(0).getTime(),
+  fromTimestamp: (a) => new Date(a.number(0)),
+
+  // Listas
+  at: (a) => a.list(0).at(a.number(1)) ?? null,
+  first: (a) => a.list(0)[0] ?? null,
+  last: (a) => a.list(0).at(-1) ?? null,
+  includes: (a, v) => a.list(0).some((item) => isEqual(item, v[1])),
+  concat: (a, v) => v.flatMap((_, i) => a.list(i)),
+  sort: (a) => [...a.list(0)].sort(compare),
+  reverse: (a) => [...a.list(0)].reverse(),
+  unique: (a) => a.list(0).filter((item, i, list) => list.findIndex((other) => isEqual(other, item)) === i),
+  flat: (a) => flatten(a.list(0)),
+};
+
+// Reciben los argumentos sin evaluar: se evalúan solo si hace falta, o una
+// vez por elemento de la lista con current e index
+const SPECIAL_FORMS: Record<string, (call: Call, env: Env) => FormulaValue> = {
+  prop: (call, env) => {
+    const name = argumentsOf(call, [evaluate(call.args[0], env)]).text(0);
+    if (!Object.hasOwn(env.scope.properties, name)) {
+      throw new FormulaError(`La propiedad "${name}" no existe`, call.start, call.end);
+    }
+    return env.scope.properties[name];
+  },
+  if: (call, env) => {
+    const test = logical(call.args[0] ?? missing(call), env, 'if');
+    return evaluate(call.args[test ? 1 : 2] ?? missing(call), env);
+  },
+  // ifs(condición1, valor1, condición2, valor2, …, si no)
+  ifs: (call, env) => {
+    for (let i = 0; i + 1 < call.args.length; i += 2) {
+      if (logical(call.args[i], env, 'ifs')) return evaluate(call.args[i + 1], env);
+    }
+    return call.args.length % 2 ? evaluate(call.args[call.args.length - 1], env) : null;
+  },
+  and: (call, env) => call.args.every((arg) => logical(arg, env, call.name)),
+  or: (call, env) => call.args.some((arg) => logical(arg, env, call.name)),
+  // let(nombre, valor, expresión) y lets(n1, v1, n2, v2, …, expresión)
+  let: (call, env) => bind(call, env),
+  lets: (call, env) => bind(call, env),
+  map: (call, env) => eachItem(call, env).map(({ result }) => result),
+  filter: (call, env) => eachItem(call, env, true).filter(({ result }) => result).map(({ item }) => item),
+  find: (call, env) => eachItem(call, env, true).find(({ result }) => result)?.item ?? null,
+  findIndex: (call, env) => eachItem(call, env, true).findIndex(({ result }) => result),
+  some: (call, env) => eachItem(call, env, true).some(({ result }) => result),
+  every: (call, env) => eachItem(call, env, true).every(({ result }) => result),
+};
+
+function missing(call: Call): never {
+  throw new FormulaError(`A ${call.name}() le faltan argumentos`, call.start, call.end);
+}
+
+function logical(node: FormulaNode, env: Env, operator: string): boolean {
+  const value = evaluate(node, env);
+  if (typeof value !== 'boolean') {
+    throw new FormulaError(`"${operator}" espera booleanos, no ${describe(value)}`, node.start, node.end);
+  }
+  return value;
+}
+
+function bind(call: Call, env: Env): FormulaValue {
+  if (call.args.length < 3 || call.args.length % 2 === 0) missing(call);
+  const variables = new Map(env.variables);
+  for (let i = 0; i + 1 < call.args.length; i += 2) {
+    const name = call.args[i];
+    if (name.kind !== 'variable') {
+      throw new FormulaError(`${call.name}() espera un nombre de variable`, name.start, name.end);
+    }
+    variables.set(name.name, evaluate(call.args[i + 1], { ...env, variables }));
+  }
+  return evaluate(call.args[call.args.length - 1], { ...env, variables });
+}
+
+/** Evalúa el segundo argumento para cada elemento de la lista del primero. */
+function eachItem(call: Call, env: Env, condition = false) {
+  const list = argumentsOf(call, [evaluate(call.args[0] ?? missing(call), env)]).list(0);
+  const expression = call.args[1] ?? missing(call);
+  return list.map((item, index) => {
+    const variables = new Map(env.variables).set('current', item).set('index', index);
+    const itemEnv = { ...env, variables };
+    return { item, result: condition ? logical(expression, itemEnv, call.name) : evaluate(expression, itemEnv) };
+  });
+}
+
+function evaluate(node: FormulaNode, env: Env): FormulaValue {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'list':
+      return node.items.map((item) => evaluate(item, env));
+    case 'variable':
+      if (env.variables.has(node.name)) return env.variables.get(node.name)!;
+      throw new FormulaError(
+        node.name === 'current' || node.name === 'index'
+          ? `"${node.name}" solo existe dentro de map(), filter() y similares`
+          : `"${node.name}" no está definida (¿querías prop("${node.name}")?)`,
+        node.start,
+        node.end,
+      );
+    case 'call': {
+      // hasOwn: constructor(), toString()… son del prototipo, no funciones
+      if (Object.hasOwn(SPECIAL_FORMS, node.name)) return SPECIAL_FORMS[node.name](node, env);
+      const fn = Object.hasOwn(FUNCTIONS, node.name) ? FUNCTIONS[node.name] : undefined;
+      if (!fn) throw new FormulaError(`La función ${node.name}() no existe o no está en el playground`, node.start, node.end);
+      const values = node.args.map((arg) => evaluate(arg, env));
+      return fn(argumentsOf(node, values), values, node, env);
+    }
+    case 'unary': {
+      if (node.operator === 'not' || node.operator === '!') return !logical(node.argument, env, node.operator);
+      const value = evaluate(node.argument, env);
+      if (typeof value !== 'number') {
+        throw new FormulaError(`"${node.operator}" espera un número, no ${describe(value)}`, node.start, node.end);
+      }
+      return node.operator === '-' ? -value : value;
+    }
+    case 'conditional': {
+      const test = logical(node.test, env, '?');
+      return evaluate(test ? node.then : node.otherwise, env);
+    }
+    case 'binary':
+      return evaluateBinary(node, env);
+  }
+}
+
+function evaluateBinary(node: Extract<FormulaNode, { kind: 'binary' }>, env: Env): FormulaValue {
+  const { operator } = node;
+  if (operator === 'and' || operator === '&&') return logical(node.left, env, operator) && logical(node.right, env, operator);
+  if (operator === 'or' || operator === '||') return logical(node.left, env, operator) || logical(node.right, env, operator);
+
+  const left = evaluate(node.left, env);
+  const right = evaluate(node.right, env);
+  const mismatch = (): never => {
+    throw new FormulaError(
+      `"${operator}" no funciona entre ${describe(left)} y ${describe(right)}`,
+      node.start,
+      node.end,
+    );
+  };
+  const sameType = describe(left) === describe(right);
+
+  switch (operator) {
+    case '==':
+    case '!=':
+      if (!sameType && left !== null && right !== null) mismatch();
+      return isEqual(left, right) === (operator === '==');
+    case '>':
+    case '>=':
+    case '<':
+    case '<=': {
+      if (!sameType || left === null || Array.isArray(left)) mismatch();
+      const order = compare(left, right);
+      return operator === '>' ? order > 0 : operator === '>=' ? order >= 0 : operator === '<' ? order < 0 : order <= 0;
+    }
+    case '+':
+      // Con un texto, + concatena (el otro lado se convierte con format)
+      if (typeof left === 'string' || typeof right === 'string') return formatValue(left) + formatValue(right);
+      if (typeof left !== 'number' || typeof right !== 'number') mismatch();
+      return (left as number) + (right as number);
+  }
+
+  if (typeof left !== 'number' || typeof right !== 'number') mismatch();
+  const a = left as number;
+  const b = right as number;
+  if (operator === '-') return a - b;
+  if (operator === '*') return a * b;
+  if (operator === '/') return a / b;
+  if (operator === '%') return a % b;
+  return a ** b;
+}
+
+export function evaluateFormula(node: FormulaNode, scope: FormulaScope): FormulaValue {
+  return evaluate(node, { scope, variables: new Map() });
+}
+
+// ---------------------------------------------------------------------------
+// Playground: una fórmula contra la tabla de ejemplo
+// ---------------------------------------------------------------------------
+
+/** Tabla de ejemplo tal cual está en la lección: cabecera = propiedades. */
+export interface SampleTable {
+  columns: string[];
+  /** Texto de cada celda (se interpreta con parseSampleValue) */
+  rows: string[][];
+}
+
+export interface FormulaIssue {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export type FormulaResult = { value: FormulaValue } | { error: FormulaIssue };
+
+export interface FormulaRun {
+  /** Error de sintaxis: entonces no hay resultados */
+  error?: FormulaIssue;
+  /** Un resultado por fila de la tabla (o uno solo si no hay tabla) */
+  results: FormulaResult[];
+}
+
+/** El error que se señala en la fórmula: el de sintaxis o el de la primera fila que falla. */
+export function formulaIssue(run: FormulaRun): FormulaIssue | undefined {
+  return run.error ?? run.results.map((result) => ('error' in result ? result.error : undefined)).find(Boolean);
+}
+
+// Un bloque de código "notion formula" cuyo pie empieza por "Playground" es
+// un playground; el resto del pie se muestra debajo
+const PLAYGROUND_CAPTION = /^playground\b[\s:.—–-]*/i;
+
+/** El pie de un bloque de playground (sin "Playground:"), o null si no lo es. */
+export function playgroundCaption(block: BlockObjectResponse): string | null {
+  if (block.type !== 'code' || block.code.language !== 'notion formula') return null;
+  const caption = block.code.caption.map((text) => text.plain_text).join('').trim();
+  return PLAYGROUND_CAPTION.test(caption) ? caption.replace(PLAYGROUND_CAPTION, '') : null;
+}
+
+function toIssue(error: unknown, source: string): FormulaIssue {
+  if (error instanceof FormulaError) return { message: error.message, start: error.start, end: error.end };
+  return { message: (error as Error).message, start: 0, end: source.length };
+}
+
+export function runFormula(source: string, table: SampleTable, now?: Date): FormulaRun {
+  let node: FormulaNode;
+  try {
+    node = parseFormula(source);
+  } catch (error) {
+    return { error: toIssue(error, source), results: [] };
+  }
+
+  const rows = table.rows.length ? table.rows : [[]];
+  const results = rows.map((row): FormulaResult => {
+    const properties = Object.fromEntries(table.columns.map((column, i) => [column, parseSampleValue(row[i] ?? '')]));
+    try {
+      return { value: evaluateFormula(node, { properties, now }) };
+    } catch (error) {
+      return { error: toIssue(error, source) };
+    }
+  });
+  return { results };
+}
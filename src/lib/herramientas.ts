@@ -0,0 +1,91 @@
+// ---------------------------------------------------------------------------
+// Catálogo de herramientas
+// ---------------------------------------------------------------------------
+// Los productos viven en src/content/herramientas/*.yaml. Su posición en el
+// catálogo sale solo de `category` + `order`: primero por categoría (en el
+// orden de CATEGORIES) y dentro de ella por `order`. De ahí salen el orden
+// de /herramientas y el anterior/siguiente de cada página de producto, así
+// que añadir un producto no obliga a tocar los de al lado.
+//
+// `price` es el texto que se muestra ("7,50€ + IVA", "Gratis") y
+// `priceNumeric` el número con el que se filtra y se generan los datos
+// estructurados; la build avisa si no coinciden (ver content-integrity.ts).
+// ---------------------------------------------------------------------------
+
+import { getCollection, type CollectionEntry } from 'astro:content';
+
+export type Product = CollectionEntry<'herramientas'>;
+export type ProductCategory = Product['data']['category'];
+
+/** Ruta de la comparativa, /herramientas/comparar: ningún producto puede llamarse así. */
+export const COMPARE_SLUG = 'comparar';
+
+/** Categorías en el orden del catálogo. */
+export const CATEGORIES: { id: ProductCategory; label: string }[] = [
+  { id: 'companion', label: 'Companion del curso' },
+  { id: 'herramienta', label: 'Herramienta' },
+  { id: 'tiny-system', label: 'Tiny System' },
+  { id: 'producto-principal', label: 'Curso o metodología' },
+];
+
+/** Tramos de precio del filtro de /herramientas (hasta `max` incluido). */
+export const PRICE_RANGES = [
+  { id: 'gratis', label: 'Gratis', max: 0 },
+  { id: 'hasta-20', label: 'Hasta 20 €', max: 20 },
+  { id: 'hasta-100', label: 'De 20 a 100 €', max: 100 },
+  { id: 'mas-de-100', label: 'Más de 100 €', max: Infinity },
+] as const;
+
+export type PriceRange = (typeof PRICE_RANGES)[number]['id'];
+
+export function priceRange(priceNumeric: number): PriceRange {
+  return PRICE_RANGES.find((range) => priceNumeric <= range.max)!.id;
+}
+
+/**
+ * Importe de un texto de precio, que puede llevar HTML: "Gratis" (o
+ * "<span>Gratis</span>") es 0 y "7,50€ <span>+ IVA</span>" es 7.5.
+ * null si no se entiende.
+ */
+export function parsePrice(price: string): number | null {
+  const text = price.replace(/<[^>]*>/g, ' ');
+  if (/^\s*gratis\b/i.test(text)) return 0;
+  const amount = text.match(/(\d+(?:[.,]\d{1,2})?)\s*€/)?.[1];
+  return amount ? Number(amount.replace(',', '.')) : null;
+}
+
+export function compareProducts(a: Product, b: Product): number {
+  const category = (p: Product) => CATEGORIES.findIndex((c) => c.id === p.data.category);
+  return category(a) - category(b) || a.data.order - b.data.order || a.data.title.localeCompare(b.data.title, 'es');
+}
+
+/** Todos los productos, en el orden del catálogo. */
+export async function getProducts(): Promise<Product[]> {
+  return (await getCollection('herramientas')).sort(compareProducts);
+}
+
+/** Página del producto, o su enlace de compra si es externo. */
+export function productHref(product: Product): string {
+  return product.data.external ? product.data.purchaseUrl : `/herramientas/${product.id}`;
+}
+
+/** Si se puede comparar: tiene página propia y lista de features o planes. */
+export function isComparable(product: Product): boolean {
+  return !product.data.external && Boolean(product.data.features?.length || product.data.pricing?.cards.length);
+}
+
+export interface ProductLink {
+  slug: string;
+  title: string;
+}
+
+/**
+ * Productos anterior y siguiente en el catálogo, entre los que tienen página
+ * propia. El recorrido sigue de una categoría a la siguiente.
+ */
+export async function getProductNav(slug: string): Promise<{ prev?: ProductLink; next?: ProductLink }> {
+  const pages = (await getProducts()).filter((p) => !p.data.external);
+  const index = pages.findIndex((p) => p.id === slug);
+  const link = (p: Product | undefined) => p && { slug: p.id, title: p.data.title };
+  return index < 0 ? {} : { prev: link(pages[index - 1]), next: link(pages[index + 1]) };
+}
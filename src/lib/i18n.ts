@@ -0,0 +1,258 @@
+// ---------------------------------------------------------------------------
+// Idiomas — edición en inglés del curso y del blog
+// ---------------------------------------------------------------------------
+// El español es el idioma por defecto y va sin prefijo (/curso/…); el resto
+// cuelga de su código (/en/curso/…). En Notion, cada lección o post tiene
+// la propiedad Idioma (vacía = español) y las traducciones apuntan a su
+// original con la relación Traducción. El curso en inglés tiene la misma
+// estructura que el español: una lección sin traducir se muestra en español
+// con un aviso (ver course-modules.ts).
+//
+// Sin imports de astro:content: lo usan también astro.config.mjs y los
+// scripts del navegador (CourseProgress).
+// ---------------------------------------------------------------------------
+
+export const LOCALES = ['es', 'en'] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = 'es';
+
+export const LOCALE_INFO: Record<Locale, { name: string; ogLocale: string; dateLocale: string }> = {
+  es: { name: 'Español', ogLocale: 'es_ES', dateLocale: 'es-ES' },
+  en: { name: 'English', ogLocale: 'en_US', dateLocale: 'en-US' },
+};
+
+/** Portada de cada idioma, para el selector en páginas sin traducción. */
+export const LOCALE_HOME: Record<Locale, string> = { es: '/', en: '/en/curso' };
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+// Lo que se puede poner en la propiedad Idioma
+const LOCALE_NAMES: Record<string, Locale> = {
+  es: 'es',
+  español: 'es',
+  spanish: 'es',
+  en: 'en',
+  inglés: 'en',
+  english: 'en',
+};
+
+/** Idioma de la propiedad Idioma de Notion: '' → español, desconocido → undefined. */
+export function parseLocale(value: string): Locale | undefined {
+  const name = value.trim().toLowerCase();
+  return name ? LOCALE_NAMES[name] : DEFAULT_LOCALE;
+}
+
+// ---------------------------------------------------------------------------
+// Rutas e ids
+// ---------------------------------------------------------------------------
+
+/** '/curso/x' en inglés → '/en/curso/x'. */
+export function localizePath(path: string, locale: Locale): string {
+  return locale === DEFAULT_LOCALE ? path : `/${locale}${path === '/' ? '' : path}`;
+}
+
+/** Idioma de una ruta, por su prefijo. */
+export function pathLocale(pathname: string): Locale {
+  const prefix = pathname.split('/')[1];
+  return isLocale(prefix) ? prefix : DEFAULT_LOCALE;
+}
+
+/** Parámetro `lang` de las rutas [...lang]/: sin prefijo en español. */
+export function langParam(locale: Locale): string | undefined {
+  return locale === DEFAULT_LOCALE ? undefined : locale;
+}
+
+/**
+ * Id de una entrada de Notion: su slug, con el idioma delante salvo en
+ * español ('en/databases'), para que una traducción pueda repetir slug.
+ */
+export function entryId(slug: string, locale: Locale): string {
+  return locale === DEFAULT_LOCALE || !slug ? slug : `${locale}/${slug}`;
+}
+
+export function splitEntryId(id: string): { locale: Locale; slug: string } {
+  const [prefix, ...rest] = id.split('/');
+  return isLocale(prefix) && rest.length ? { locale: prefix, slug: rest.join('/') } : { locale: DEFAULT_LOCALE, slug: id };
+}
+
+/** Ruta de una lección o un post por su id: ('blog', 'en/x') → '/en/blog/x'. */
+export function entryPath(section: 'curso' | 'blog', id: string): string {
+  const { locale, slug } = splitEntryId(id);
+  return localizePath(`/${section}/${slug}`, locale);
+}
+
+/** Filtro para getCollection: las entradas de un idioma. */
+export function inLocale(locale: Locale) {
+  return (entry: { data: { locale: string } }) => entry.data.locale === locale;
+}
+
+// Las lecciones sin traducir (en español dentro del curso en inglés) tienen
+// como canónica la española, así que no van al sitemap (astro.config.mjs).
+// Vive en globalThis: las páginas y el sitemap cargan instancias distintas del módulo
+const UNTRANSLATED_KEY = Symbol.for('aprendenotion.untranslated-pages');
+
+function getUntranslatedPages(): Set<string> {
+  const g = globalThis as any;
+  if (!g[UNTRANSLATED_KEY]) g[UNTRANSLATED_KEY] = new Set<string>();
+  return g[UNTRANSLATED_KEY];
+}
+
+const normalize = (pathname: string) => pathname.replace(/\/+$/, '') || '/';
+
+export function registerUntranslatedPage(pathname: string) {
+  getUntranslatedPages().add(normalize(pathname));
+}
+
+export function isUntranslatedPage(pathname: string): boolean {
+  return getUntranslatedPages().has(normalize(pathname));
+}
+
+/** La misma página en otro idioma, para hreflang y el selector de idioma. */
+export interface Alternate {
+  locale: Locale;
+  href: string;
+}
+
+// ---------------------------------------------------------------------------
+// Textos de la interfaz
+// ---------------------------------------------------------------------------
+
+const es = {
+  'nav.main': 'Navegación principal',
+  'nav.skip': 'Saltar al contenido',
+  'nav.course': 'Curso',
+  'nav.tools': 'Herramientas',
+  'nav.blog': 'Blog',
+  'nav.theme': 'Cambiar tema',
+  'nav.language': 'Idioma',
+  'footer.more': 'Lleva Notion más allá',
+  'footer.contact': 'Contacto',
+  'toc.label': 'Tabla de contenidos',
+  'toc.lesson': 'En esta lección',
+  'toc.contents': 'Contenido',
+
+  'course.name': 'Curso de Notion',
+  'course.crumb': 'Curso',
+  'course.subtitle': 'Lecciones prácticas para dominar Notion, organizadas por temas. 100% gratis.',
+  'course.description': 'Aprende Notion desde cero con lecciones prácticas organizadas por temas. Todo gratis.',
+  'course.empty': 'Las lecciones se están preparando. Vuelve pronto o suscríbete a la newsletter para que te avise cuando estén listas.',
+  'course.lessons': 'Lecciones',
+  'course.lessonCount': '{n} lecciones',
+  'course.moduleProgress': 'Progreso de {title}',
+  'course.moduleNav': 'Navegación de módulos',
+  'course.lessonNav': 'Navegación de lecciones',
+  'course.backTo': 'Volver a {title}',
+  'course.updated': 'Actualizada el',
+  'course.lessonEmpty': 'Esta lección está en preparación. Vuelve pronto.',
+  'course.untranslated': 'Esta lección aún no está traducida: la tienes en español.',
+  'course.module': 'Módulo {n} · {count} lecciones',
+  'course.position': 'Lección {n} de {count}',
+
+  'progress.panel': 'Tu progreso',
+  'progress.courseBar': 'Progreso del curso',
+  'progress.continue': 'Continuar donde lo dejaste',
+  'progress.continueAt': 'Continuar donde lo dejaste: {title} →',
+  'progress.start': 'Empezar el curso: {title} →',
+  'progress.done': '¡Has completado el curso! {count}.',
+  'progress.summary': 'Llevas {count} completadas.',
+  'progress.hint': 'Marca las lecciones como completadas para seguir tu progreso.',
+  'progress.one': '{done} de {total} lección',
+  'progress.other': '{done} de {total} lecciones',
+  'progress.mark': 'Marcar como completada',
+  'progress.marked': '✓ Lección completada',
+  'progress.export': 'Exportar progreso',
+  'progress.import': 'Importar progreso',
+  'progress.imported': 'Progreso importado.',
+  'progress.importFailed': 'Ese fichero no es un progreso exportado desde Aprende Notion.',
+
+  'blog.title': 'Blog',
+  'blog.subtitle': 'Artículos, tutoriales y recursos para sacarle el máximo partido a Notion y mejorar tu productividad.',
+  'blog.description': 'Artículos, tutoriales y recursos sobre Notion. Aprende trucos, descubre plantillas y domina la herramienta de productividad más versátil.',
+  'blog.posts': 'Artículos del blog',
+  'blog.updated': 'Actualizado el',
+  'blog.readingTime': '{n} min de lectura',
+  'blog.cover': 'Portada de {title}',
+  'blog.empty': 'Este artículo aún no tiene contenido. Escríbelo en Notion y aparecerá aquí automáticamente.',
+  'blog.authorBio': 'Creadora de Aprende Notion. Apasionada de la productividad y los sistemas personales.',
+  'blog.nav': 'Navegación del blog',
+  'blog.back': '← Volver al blog',
+};
+
+export type UiKey = keyof typeof es;
+
+// El inglés tiene que tener todos los textos (lo comprueba tsc)
+const ui: Record<Locale, Record<UiKey, string>> = {
+  es,
+  en: {
+    'nav.main': 'Main navigation',
+    'nav.skip': 'Skip to content',
+    'nav.course': 'Course',
+    'nav.tools': 'Tools',
+    'nav.blog': 'Blog',
+    'nav.theme': 'Toggle theme',
+    'nav.language': 'Language',
+    'footer.more': 'Take Notion further',
+    'footer.contact': 'Contact',
+    'toc.label': 'Table of contents',
+    'toc.lesson': 'In this lesson',
+    'toc.contents': 'Contents',
+
+    'course.name': 'Notion course',
+    'course.crumb': 'Course',
+    'course.subtitle': 'Hands-on lessons to master Notion, organized by topic. 100% free.',
+    'course.description': 'Learn Notion from scratch with hands-on lessons organized by topic. All free.',
+    'course.empty': 'The lessons are on their way. Check back soon or subscribe to the newsletter to hear when they are ready.',
+    'course.lessons': 'Lessons',
+    'course.lessonCount': '{n} lessons',
+    'course.moduleProgress': '{title} progress',
+    'course.moduleNav': 'Module navigation',
+    'course.lessonNav': 'Lesson navigation',
+    'course.backTo': 'Back to {title}',
+    'course.updated': 'Updated on',
+    'course.lessonEmpty': 'This lesson is being prepared. Check back soon.',
+    'course.untranslated': "This lesson hasn't been translated into English yet, so it's shown in Spanish.",
+    'course.module': 'Module {n} · {count} lessons',
+    'course.position': 'Lesson {n} of {count}',
+
+    'progress.panel': 'Your progress',
+    'progress.courseBar': 'Course progress',
+    'progress.continue': 'Pick up where you left off',
+    'progress.continueAt': 'Pick up where you left off: {title} →',
+    'progress.start': 'Start the course: {title} →',
+    'progress.done': "You've finished the course! {count}.",
+    'progress.summary': "You've completed {count}.",
+    'progress.hint': 'Mark lessons as complete to track your progress.',
+    'progress.one': '{done} of {total} lesson',
+    'progress.other': '{done} of {total} lessons',
+    'progress.mark': 'Mark as complete',
+    'progress.marked': '✓ Lesson complete',
+    'progress.export': 'Export progress',
+    'progress.import': 'Import progress',
+    'progress.imported': 'Progress imported.',
+    'progress.importFailed': "That file isn't progress exported from Aprende Notion.",
+
+    'blog.title': 'Blog',
+    'blog.subtitle': 'Articles, tutorials and resources to get the most out of Notion and boost your productivity.',
+    'blog.description': 'Articles, tutorials and resources about Notion. Learn tricks, find templates and master the most versatile productivity tool.',
+    'blog.posts': 'Blog posts',
+    'blog.updated': 'Updated on',
+    'blog.readingTime': '{n} min read',
+    'blog.cover': 'Cover of {title}',
+    'blog.empty': "This post doesn't have any content yet.",
+    'blog.authorBio': 'Creator of Aprende Notion. Passionate about productivity and personal systems.',
+    'blog.nav': 'Blog navigation',
+    'blog.back': '← Back to the blog',
+  },
+};
+
+/** Texto de la interfaz; `{n}`, `{title}`… se sustituyen por `vars`. */
+export function t(locale: Locale, key: UiKey, vars: Record<string, string | number> = {}): string {
+  return ui[locale][key].replace(/\{(\w+)\}/g, (match, name) => (name in vars ? String(vars[name]) : match));
+}
+
+/** "3 de marzo de 2025" / "March 3, 2025" (`short`: "3 mar 2025"). */
+export function formatDate(date: string, locale: Locale, month: 'long' | 'short' = 'long'): string {
+  return new Date(date).toLocaleDateString(LOCALE_INFO[locale].dateLocale, { year: 'numeric', month, day: 'numeric' });
+}
@@ -0,0 +1,37 @@
+// ---------------------------------------------------------------------------
+// Fecha de última edición de cada página, para el <lastmod> del sitemap
+// ---------------------------------------------------------------------------
+// BaseLayout registra la fecha que le pasa cada página (prop `updatedDate`,
+// que sale de Notion: ver content.config.ts) y el `serialize` del sitemap en
+// astro.config.mjs la consulta al final del build.
+//
+// Sin imports de astro:content: astro.config.mjs usa este módulo.
+// ---------------------------------------------------------------------------
+
+// Vive en globalThis: las páginas y el sitemap cargan instancias distintas del módulo
+const LASTMOD_KEY = Symbol.for('aprendenotion.lastmod');
+
+function getDates(): Map<string, string> {
+  const g = globalThis as any;
+  if (!g[LASTMOD_KEY]) g[LASTMOD_KEY] = new Map<string, string>();
+  return g[LASTMOD_KEY];
+}
+
+const normalize = (pathname: string) => pathname.replace(/\/+$/, '') || '/';
+
+export function registerLastModified(pathname: string, date: string) {
+  const time = Date.parse(date);
+  if (!Number.isNaN(time)) getDates().set(normalize(pathname), new Date(time).toISOString());
+}
+
+/** Fecha ISO de la última edición de una ruta, si la página la dio. */
+export function getLastModified(pathname: string): string | undefined {
+  return getDates().get(normalize(pathname));
+}
+
+/** La más reciente de varias fechas (p. ej. la página de un módulo y sus lecciones). */
+export function latestDate(dates: (string | undefined)[]): string | undefined {
+  return dates
+    .filter((date): date is string => Boolean(date) && !Number.isNaN(Date.parse(date!)))
+    .sort((a, b) => Date.parse(b) - Date.parse(a))[0];
+}
@@ -0,0 +1,132 @@
+// ---------------------------------------------------------------------------
+// Enlaces internos de Notion → rutas del sitio
+// ---------------------------------------------------------------------------
+// En Notion, un enlace a otra página llega como URL de notion.so o como
+// "/<id>", y las menciones (@página) solo traen el id. Aquí se traduce
+// cualquier id de página a su ruta publicada:
+//   lección          → /curso/<slug>   (/en/curso/<slug> si es una traducción)
+//   post del blog    → /blog/<slug>    (/en/blog/<slug>)
+// Los enlaces a páginas no publicadas se anotan en el informe de build en vez
+// de dejar escapar URLs privadas del workspace.
+// ---------------------------------------------------------------------------
+
+import { getCollection } from 'astro:content';
+import { getCourseLessons } from './course-modules';
+import { DEFAULT_LOCALE, LOCALES, entryPath } from './i18n';
+import type { RichTextItemResponse } from '@notionhq/client/build/src/api-endpoints';
+
+export interface PageRoute {
+  href: string;
+  title: string;
+}
+
+const NOTION_HOSTS = /(^|\.)notion\.(so|site)$/;
+const ID_32 = /([0-9a-f]{32})(?:[?#]|$)/i;
+const ID_DASHED = /([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i;
+
+/** Normaliza un id de Notion (con o sin guiones) al formato con guiones. */
+export function normalizeNotionId(id: string): string {
+  const hex = id.replace(/-/g, '').toLowerCase();
+  if (!/^[0-9a-f]{32}$/.test(hex)) return id;
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Id de la página a la que apunta un href de Notion, o null si es un enlace
+ * externo normal. Acepta:
+ *   https://www.notion.so/Titulo-<id>   https://x.notion.site/<id>?pvs=4
+ *   https://www.notion.so/<workspace>/<id>#<bloque>
+ *   /<id>   (enlaces entre páginas que devuelve la API)
+ */
+export function extractNotionPageId(href: string): string | null {
+  let pathname: string;
+  let search = '';
+  if (href.startsWith('/')) {
+    pathname = href;
+  } else {
+    try {
+      const url = new URL(href);
+      if (!NOTION_HOSTS.test(url.hostname)) return null;
+      pathname = url.pathname;
+      search = url.search;
+    } catch {
+      return null;
+    }
+  }
+
+  // ?p=<id> abre una página como "peek" sobre otra: la que cuenta es esa
+  const peek = new URLSearchParams(search).get('p');
+  const candidate = peek || pathname.split('/').pop() || '';
+  const match = candidate.match(ID_DASHED) ?? candidate.match(ID_32);
+  return match ? normalizeNotionId(match[1]) : null;
+}
+
+// ---------------------------------------------------------------------------
+// Índice de rutas publicadas
+// ---------------------------------------------------------------------------
+
+let _routes: Promise<Map<string, PageRoute>> | null = null;
+
+async function buildRouteIndex(): Promise<Map<string, PageRoute>> {
+  const routes = new Map<string, PageRoute>();
+
+  // Las lecciones "padre" de un módulo multi-lección llevan a la página del
+  // módulo (ver getCourseLessons)
+  for (const locale of LOCALES) {
+    for (const lesson of (await getCourseLessons(locale)).values()) {
+      if (!lesson.translated && locale !== DEFAULT_LOCALE) continue;
+      routes.set(normalizeNotionId(lesson.entry.data.notionId), {
+        href: lesson.href,
+        title: lesson.entry.data.title,
+      });
+    }
+  }
+
+  // Los posts MDX no tienen página en Notion (salvo que lleven su notionId)
+  for (const post of await getCollection('blog')) {
+    if (!post.data.notionId) continue;
+    routes.set(normalizeNotionId(post.data.notionId), {
+      href: entryPath('blog', post.id),
+      title: post.data.title,
+    });
+  }
+
+  return routes;
+}
+
+/** Mapa id de página de Notion → ruta publicada (se calcula una vez por build). */
+export function getRouteIndex(): Promise<Map<string, PageRoute>> {
+  if (!_routes) _routes = buildRouteIndex();
+  return _routes;
+}
+
+/** Ruta publicada de una página de Notion, o undefined si no está publicada. */
+export async function resolvePageRoute(pageId: string): Promise<PageRoute | undefined> {
+  return (await getRouteIndex()).get(normalizeNotionId(pageId));
+}
+
+/**
+ * Destino de un item de rich text: ruta interna si apunta a una página
+ * publicada, el href tal cual si es externo, o null si no tiene enlace o
+ * apunta a una página que no está publicada (se avisa con `onUnresolved`).
+ */
+export function resolveRichTextLink(
+  item: RichTextItemResponse,
+  routes: Map<string, PageRoute>,
+  onUnresolved?: (pageId: string) => void,
+): { href: string; internal: boolean } | null {
+  const pageId =
+    item.type === 'mention' && item.mention.type === 'page'
+      ? normalizeNotionId(item.mention.page.id)
+      : item.href
+        ? extractNotionPageId(item.href)
+        : null;
+
+  if (!pageId) return item.href ? { href: item.href, internal: false } : null;
+
+  const route = routes.get(pageId);
+  if (route) return { href: route.href, internal: true };
+
+  onUnresolved?.(pageId);
+  return null;
+}
@@ -0,0 +1,106 @@
+// ---------------------------------------------------------------------------
+// Lecciones y posts en Markdown — versión .md de cada página, llms.txt y
+// exportación a disco
+// ---------------------------------------------------------------------------
+// Cada documento es el frontmatter de su entrada (los mismos campos que el
+// schema de la colección en content.config.ts) más el cuerpo que saca
+// notion-markdown.ts de su árbol de bloques. Los endpoints están en
+// src/pages/curso/[slug].md.ts, src/pages/blog/[slug].md.ts y
+// src/pages/llms*.txt.ts; la integración notion-export copia los .md del
+// build a una carpeta (npm run export).
+// ---------------------------------------------------------------------------
+
+import { getCollection } from 'astro:content';
+import { getBlocks } from './notion';
+import { blocksToMarkdown } from './notion-markdown';
+import { getCourseModules } from './course-modules';
+import { isDraft } from './preview';
+import { DEFAULT_LOCALE, inLocale } from './i18n';
+
+export interface MarkdownDocument {
+  collection: 'lessons' | 'blog';
+  /** Slug de la entrada */
+  id: string;
+  /** Ruta de la página HTML */
+  url: string;
+  title: string;
+  description: string;
+  /** Datos de la entrada, tal cual los guarda el loader */
+  data: Record<string, unknown>;
+  body: string;
+}
+
+/**
+ * Frontmatter YAML. Cada valor va como JSON, que también es YAML válido:
+ * así las cadenas con comillas o dos puntos y los objetos anidados (video)
+ * no necesitan un serializador propio.
+ */
+export function toFrontmatter(data: Record<string, unknown>): string {
+  const lines = Object.entries(data)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return `---\n${lines.join('\n')}\n---\n`;
+}
+
+export function toMarkdownFile(doc: MarkdownDocument): string {
+  return `${toFrontmatter(doc.data)}\n${doc.body}\n`;
+}
+
+/** Lecciones en el orden del curso: módulo a módulo, con su intro delante. */
+export async function getLessonDocuments(site: URL): Promise<MarkdownDocument[]> {
+  // Los borradores (modo preview) no se exportan, y las traducciones tampoco
+  const lessons = (await getCollection('lessons', inLocale(DEFAULT_LOCALE)))
+    .filter((lesson) => !isDraft(lesson.data))
+    .sort((a, b) => a.data.order - b.data.order);
+  const modules = await getCourseModules();
+
+  const ordered: typeof lessons = [];
+  const add = (slug: string) => {
+    const lesson = lessons.find((l) => l.id === slug);
+    if (lesson && !ordered.includes(lesson)) ordered.push(lesson);
+  };
+  for (const mod of modules) {
+    add(mod.slug);
+    mod.lessonSlugs.forEach(add);
+  }
+  // Las que no están en ningún módulo, al final
+  lessons.forEach((lesson) => add(lesson.id));
+
+  const docs: MarkdownDocument[] = [];
+  for (const lesson of ordered) {
+    docs.push({
+      collection: 'lessons',
+      id: lesson.id,
+      url: `/curso/${lesson.id}`,
+      title: lesson.data.title,
+      description: lesson.data.description,
+      data: lesson.data,
+      body: await blocksToMarkdown(await getBlocks(lesson.data.notionId), { site }),
+    });
+  }
+  return docs;
+}
+
+/** Posts del blog, del más reciente al más antiguo. */
+export async function getBlogDocuments(site: URL): Promise<MarkdownDocument[]> {
+  const posts = (await getCollection('blog', inLocale(DEFAULT_LOCALE)))
+    .filter((post) => !isDraft(post.data))
+    .sort((a, b) => new Date(b.data.publishDate).getTime() - new Date(a.data.publishDate).getTime());
+
+  const docs: MarkdownDocument[] = [];
+  for (const post of posts) {
+    docs.push({
+      collection: 'blog',
+      id: post.id,
+      url: `/blog/${post.id}`,
+      title: post.data.title,
+      description: post.data.description,
+      data: post.data,
+      // Los posts MDX ya están en Markdown
+      body: post.filePath
+        ? (post.body ?? '').trim()
+        : await blocksToMarkdown(post.data.notionId ? await getBlocks(post.data.notionId) : [], { site }),
+    });
+  }
+  return docs;
+}
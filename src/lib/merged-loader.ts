@@ -0,0 +1,167 @@
+// ---------------------------------------------------------------------------
+// mergedLoader — one collection fed by several loaders
+// ---------------------------------------------------------------------------
+// The blog is written in Notion and as local MDX files (src/content/blog/),
+// and both end up in the same `blog` collection:
+//
+//   loader: mergedLoader({
+//     name: 'blog',
+//     sources: [
+//       { name: 'notion', loader: notionLoader({ ... }) },
+//       { name: 'mdx', loader: glob({ pattern: '**/*.mdx', base: './src/content/blog' }) },
+//     ],
+//   }),
+//
+// Each source loads into a store of its own, validated against the
+// collection's schema as usual, and the entries are then merged into the
+// real store. Slug conflicts follow the order of `sources`: the first source
+// that has the slug wins, and every entry it hides is a content warning
+// (src/lib/content-issues.ts), so a post that exists in both places is
+// never published twice or swapped silently.
+//
+// A source that fails (Notion unreachable, a bad token…) is a content
+// warning too: the other sources are still published, so losing access to
+// Notion doesn't empty the blog. In dev, a source that updates after the
+// load (the glob watcher) merges again.
+// ---------------------------------------------------------------------------
+
+import type { Loader, LoaderContext } from 'astro/loaders';
+import { clearContentIssues, reportContentIssue, type ContentIssue } from './content-issues';
+
+type DataStore = LoaderContext['store'];
+type DataEntry = NonNullable<ReturnType<DataStore['get']>>;
+// What Astro passes has this too, it's just not in the public type
+type MutableStore = DataStore & { addAssetImports(assets: string[], filePath?: string): void };
+
+export interface LoaderSource {
+  /** Short name for logs and the content report, e.g. 'notion' or 'mdx' */
+  name: string;
+  loader: Loader;
+}
+
+export interface MergedLoaderOptions {
+  /** Collection name, for logs and the content report */
+  name: string;
+  /** In priority order: on a slug conflict, the first source wins */
+  sources: LoaderSource[];
+}
+
+/**
+ * A store that keeps a source's entries to itself. Module and asset imports
+ * (MDX files, images) go straight to the real store, which renders them.
+ */
+function sourceStore(target: DataStore, onChange: () => void): DataStore {
+  const entries = new Map<string, DataEntry>();
+  return {
+    ...target,
+    get: ((key: string) => entries.get(key)) as DataStore['get'],
+    entries: () => [...entries],
+    values: () => [...entries.values()],
+    keys: () => [...entries.keys()],
+    has: (key) => entries.has(key),
+    set: (entry) => {
+      entries.set(entry.id, entry as DataEntry);
+      onChange();
+      return true;
+    },
+    delete: (key) => {
+      if (entries.delete(key)) onChange();
+    },
+    clear: () => {
+      entries.clear();
+      onChange();
+    },
+  };
+}
+
+/** Where an entry comes from, for the content report. */
+function origin(source: string, entry: DataEntry): string {
+  return entry.filePath ? `${source} (${entry.filePath})` : source;
+}
+
+export function mergedLoader(options: MergedLoaderOptions): Loader {
+  const { name, sources } = options;
+  // Kept between loads, like the real store: the glob loader compares digests
+  const stores = new Map<string, DataStore>();
+  let conflicts: ContentIssue[] = [];
+  // The stores outlive a load: they notify the latest one
+  let notify = () => {};
+
+  return {
+    name: `merged-${name}-loader`,
+    async load(context) {
+      const { store, logger } = context;
+      let loading = true;
+      let pending = false;
+
+      function merge() {
+        clearContentIssues(name, (issue) => conflicts.includes(issue));
+        conflicts = [];
+
+        const winners = new Map<string, { source: string; entry: DataEntry }>();
+        for (const source of sources) {
+          for (const entry of stores.get(source.name)!.values()) {
+            const winner = winners.get(entry.id);
+            if (!winner) {
+              winners.set(entry.id, { source: source.name, entry });
+              continue;
+            }
+            const issue: ContentIssue = {
+              level: 'warning',
+              collection: name,
+              id: entry.id,
+              message: `Also in ${origin(source.name, entry)}, which is ignored: ${origin(winner.source, winner.entry)} comes first`,
+            };
+            reportContentIssue(issue);
+            conflicts.push(issue);
+          }
+        }
+
+        for (const id of store.keys()) {
+          if (!winners.has(id)) store.delete(id);
+        }
+        for (const { entry } of winners.values()) {
+          if (store.set(entry)) continue;
+          // Unchanged (same digest), so not stored again: register its
+          // imports anyway, as the glob loader does, or render() can't find it
+          if (entry.deferredRender && entry.filePath) store.addModuleImport(entry.filePath);
+          if (entry.assetImports?.length) (store as MutableStore).addAssetImports(entry.assetImports, entry.filePath);
+        }
+        return winners;
+      }
+
+      // Changes after the load (dev watchers) are merged once per tick
+      notify = () => {
+        if (loading || pending) return;
+        pending = true;
+        queueMicrotask(() => {
+          pending = false;
+          merge();
+        });
+      };
+
+      for (const source of sources) {
+        if (!stores.has(source.name)) stores.set(source.name, sourceStore(store, () => notify()));
+        try {
+          await source.loader.load({ ...context, store: stores.get(source.name)! });
+        } catch (error) {
+          logger.error(`${source.name} failed: ${(error as Error).message}`);
+          reportContentIssue({
+            level: 'warning',
+            collection: name,
+            id: source.name,
+            message: `Couldn't load ${source.name} (${(error as Error).message}); publishing the other sources only`,
+          });
+        }
+      }
+
+      loading = false;
+      const winners = merge();
+      const counts = sources.map((source) => {
+        const count = [...winners.values()].filter((w) => w.source === source.name).length;
+        return `${count} from ${source.name}`;
+      });
+      logger.info(`${winners.size} entries (${counts.join(', ')})`);
+    },
+  };
+}
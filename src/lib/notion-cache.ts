@@ -0,0 +1,246 @@
+// ---------------------------------------------------------------------------
+// Notion cache — file-system cache so builds don't re-fetch everything
+// ---------------------------------------------------------------------------
+// Two kinds of entries live in `.notion-cache/`:
+//
+// - `db-<dataSourceId>-<hash>.json`  result of one query (filter + sorts)
+// - `blocks-<pageId>.json`           full block tree of one page
+//
+// Block trees are stamped with the page's `last_edited_time`. Every query
+// records the stamps of the pages it returned in `pages.json`, so a block
+// tree is only re-downloaded when its page changed in Notion. Index keys
+// whose query is gone (its entry was deleted, or its filter or sorts changed)
+// are dropped by pruneCache, so an old key can't vouch for an old tree.
+// ---------------------------------------------------------------------------
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { hashRequest } from './notion-fixtures';
+
+export const CACHE_DIR = path.join(process.cwd(), '.notion-cache');
+
+/** Bump when the entry format changes; older entries are treated as misses. */
+const CACHE_VERSION = 2;
+const DEV_TTL = 1000 * 60 * 5; // query results in dev; builds always re-query
+const INDEX_FILE = path.join(CACHE_DIR, 'pages.json');
+
+interface CacheEntry<T> {
+  version: number;
+  storedAt: number;
+  /** `last_edited_time` of the page the entry was built from */
+  lastEdited?: string;
+  data: T;
+}
+
+/** query cache key → (pageId → last_edited_time) from its latest run. */
+type PageIndex = Record<string, Record<string, string>>;
+
+/** Query cache keys this process has run or read from the cache. */
+const queriedKeys = new Set<string>();
+
+function isDev(): boolean {
+  return (import.meta as any).env?.DEV ?? process.env.NODE_ENV !== 'production';
+}
+
+function entryFile(key: string): string {
+  return path.join(CACHE_DIR, `${key}.json`);
+}
+
+function readEntry<T>(key: string): CacheEntry<T> | null {
+  const file = entryFile(key);
+  if (!fs.existsSync(file)) return null;
+  try {
+    const entry = JSON.parse(fs.readFileSync(file, 'utf-8')) as CacheEntry<T>;
+    return entry?.version === CACHE_VERSION ? entry : null;
+  } catch {
+    return null; // corrupt entry — refetch
+  }
+}
+
+function writeEntry(key: string, data: unknown, lastEdited?: string) {
+  fs.mkdirSync(CACHE_DIR, { recursive: true });
+  const entry: CacheEntry<unknown> = { version: CACHE_VERSION, storedAt: Date.now(), lastEdited, data };
+  fs.writeFileSync(entryFile(key), JSON.stringify(entry));
+}
+
+function removeEntry(key: string): boolean {
+  const file = entryFile(key);
+  if (!fs.existsSync(file)) return false;
+  fs.unlinkSync(file);
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Page index
+// ---------------------------------------------------------------------------
+
+function readIndex(): PageIndex {
+  if (!fs.existsSync(INDEX_FILE)) return {};
+  try {
+    return JSON.parse(fs.readFileSync(INDEX_FILE, 'utf-8')) as PageIndex;
+  } catch {
+    return {};
+  }
+}
+
+function writeIndex(index: PageIndex) {
+  fs.mkdirSync(CACHE_DIR, { recursive: true });
+  fs.writeFileSync(INDEX_FILE, JSON.stringify(index));
+}
+
+/** Latest known `last_edited_time` of a page, from any recorded query. */
+function getPageEdit(pageId: string): string | undefined {
+  let latest: string | undefined;
+  for (const pages of Object.values(readIndex())) {
+    const edited = pages[pageId];
+    if (edited && (!latest || Date.parse(edited) > Date.parse(latest))) latest = edited;
+  }
+  return latest;
+}
+
+/** data source id from a db-<dataSourceId>-<hash> key */
+function keyDataSource(key: string): string {
+  return key.slice('db-'.length, key.lastIndexOf('-'));
+}
+
+/** Data sources whose recorded queries returned this page. */
+export function getPageDataSources(pageId: string): string[] {
+  const sources = new Set<string>();
+  for (const [key, pages] of Object.entries(readIndex())) {
+    if (pages[pageId]) sources.add(keyDataSource(key));
+  }
+  return [...sources];
+}
+
+// ---------------------------------------------------------------------------
+// Query results
+// ---------------------------------------------------------------------------
+
+export function queryCacheKey(dataSourceId: string, query: { filter?: unknown; sorts?: unknown }): string {
+  return `db-${dataSourceId}-${hashRequest({ filter: query.filter, sorts: query.sorts })}`;
+}
+
+/** Cached query result. Only reused in dev, and only for a few minutes. */
+export function getCachedQuery<T>(key: string): T | null {
+  if (!isDev()) return null;
+  const entry = readEntry<T>(key);
+  if (!entry || Date.now() - entry.storedAt > DEV_TTL) return null;
+  queriedKeys.add(key);
+  return entry.data;
+}
+
+export function setCachedQuery(key: string, pages: { id: string; last_edited_time: string }[]) {
+  writeEntry(key, pages);
+  queriedKeys.add(key);
+
+  const index = readIndex();
+  index[key] = Object.fromEntries(pages.map((p) => [p.id, p.last_edited_time]));
+  writeIndex(index);
+}
+
+// ---------------------------------------------------------------------------
+// Block trees
+// ---------------------------------------------------------------------------
+
+/**
+ * Cached block tree of a page. Reused as long as the page hasn't been edited
+ * since; pages no query has seen fall back to the dev TTL.
+ */
+export function getCachedBlocks<T>(pageId: string): T | null {
+  const entry = readEntry<T>(`blocks-${pageId}`);
+  if (!entry) return null;
+
+  const lastEdited = getPageEdit(pageId);
+  if (lastEdited) return entry.lastEdited === lastEdited ? entry.data : null;
+  if (isDev() && Date.now() - entry.storedAt <= DEV_TTL) return entry.data;
+  return null;
+}
+
+export function setCachedBlocks(pageId: string, blocks: unknown) {
+  writeEntry(`blocks-${pageId}`, blocks, getPageEdit(pageId));
+}
+
+// ---------------------------------------------------------------------------
+// Invalidation
+// ---------------------------------------------------------------------------
+
+export interface InvalidateOptions {
+  /** Drop the block tree of this page */
+  pageId?: string;
+  /** Drop every cached query on this data source */
+  dataSourceId?: string;
+}
+
+/** Drop specific entries. Returns the number of files removed. */
+export function invalidateCache(opts: InvalidateOptions): number {
+  if (!fs.existsSync(CACHE_DIR)) return 0;
+  let removed = 0;
+
+  if (opts.pageId) {
+    if (removeEntry(`blocks-${opts.pageId}`)) removed++;
+    const index = readIndex();
+    for (const pages of Object.values(index)) delete pages[opts.pageId];
+    writeIndex(index);
+  }
+
+  if (opts.dataSourceId) {
+    const prefix = `db-${opts.dataSourceId}-`;
+    for (const file of fs.readdirSync(CACHE_DIR)) {
+      if (file.startsWith(prefix) && removeEntry(file.replace(/\.json$/, ''))) removed++;
+    }
+    const index = readIndex();
+    for (const key of Object.keys(index)) {
+      if (key.startsWith(prefix)) delete index[key];
+    }
+    writeIndex(index);
+  }
+
+  return removed;
+}
+
+/**
+ * Drop index keys whose entry file is gone, and keys of a data source this
+ * process has queried under a different key (its filter or sorts changed).
+ * Data sources nothing has queried yet keep their keys: another loader may
+ * still be about to run them.
+ */
+function pruneIndex(): PageIndex {
+  const index = readIndex();
+  const queriedSources = new Set([...queriedKeys].map(keyDataSource));
+  let changed = false;
+
+  for (const key of Object.keys(index)) {
+    const gone = !fs.existsSync(entryFile(key));
+    const superseded = queriedSources.has(keyDataSource(key)) && !queriedKeys.has(key);
+    if (gone || superseded) {
+      if (superseded) removeEntry(key);
+      delete index[key];
+      changed = true;
+    }
+  }
+
+  if (changed) writeIndex(index);
+  return index;
+}
+
+/**
+ * Remove block trees of pages that no longer appear in any live query
+ * (deleted or unpublished in Notion). Returns the number of files removed.
+ */
+export function pruneCache(): number {
+  if (!fs.existsSync(CACHE_DIR)) return 0;
+  const known = new Set(Object.values(pruneIndex()).flatMap((pages) => Object.keys(pages)));
+  let removed = 0;
+
+  for (const file of fs.readdirSync(CACHE_DIR)) {
+    const match = file.match(/^blocks-(.+)\.json$/);
+    if (match && !known.has(match[1]) && removeEntry(`blocks-${match[1]}`)) removed++;
+  }
+
+  return removed;
+}
+
+/** Wipe the whole cache. */
+export function clearCache() {
+  fs.rmSync(CACHE_DIR, { recursive: true, force: true });
+}
@@ -0,0 +1,125 @@
+// ---------------------------------------------------------------------------
+// Notion fixtures — record/replay of API responses
+// ---------------------------------------------------------------------------
+// In "record" mode every response from the Notion API is saved to
+// `notion-fixtures/v<N>/`. In "replay" mode the same requests are served from
+// those files, so the site can be built without a token or network access.
+// ---------------------------------------------------------------------------
+
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+export type NotionMode = 'live' | 'record' | 'replay';
+
+/** Bump when the fixture file format changes so old recordings are ignored. */
+export const FIXTURES_VERSION = 1;
+
+export const FIXTURES_DIR = path.join(
+  process.cwd(),
+  'notion-fixtures',
+  `v${FIXTURES_VERSION}`,
+);
+
+const MANIFEST_FILE = path.join(FIXTURES_DIR, 'manifest.json');
+
+interface Fixture<T> {
+  kind: string;
+  request: unknown;
+  response: T;
+}
+
+interface Manifest {
+  recordedAt: string;
+  /** Env vars (database ids) used while recording, so replay needs no .env */
+  env: Record<string, string>;
+}
+
+// ---------------------------------------------------------------------------
+// Mode
+// ---------------------------------------------------------------------------
+
+/**
+ * Decide how the Notion client should behave:
+ * - `NOTION_MODE=record|replay|live` wins if set.
+ * - Without a token, fall back to replay when fixtures exist.
+ * - Otherwise, talk to the live API.
+ */
+export function resolveMode(explicit: string | undefined, hasToken: boolean): NotionMode {
+  if (explicit === 'record' || explicit === 'replay' || explicit === 'live') return explicit;
+  if (explicit) throw new Error(`Unknown NOTION_MODE "${explicit}" (expected live, record or replay)`);
+  if (!hasToken && fs.existsSync(MANIFEST_FILE)) return 'replay';
+  return 'live';
+}
+
+// ---------------------------------------------------------------------------
+// Keys
+// ---------------------------------------------------------------------------
+
+/** JSON.stringify with sorted object keys, so equal requests hash equally. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function hashRequest(request: unknown): string {
+  return createHash('sha1').update(stableStringify(request)).digest('hex').slice(0, 16);
+}
+
+function fixtureFile(kind: string, request: unknown): string {
+  return path.join(FIXTURES_DIR, kind, `${hashRequest(request)}.json`);
+}
+
+// ---------------------------------------------------------------------------
+// Read / write
+// ---------------------------------------------------------------------------
+
+export function readFixture<T>(kind: string, request: unknown): T {
+  const file = fixtureFile(kind, request);
+  if (!fs.existsSync(file)) {
+    throw new Error(
+      `No Notion fixture for ${kind} ${stableStringify(request)} ` +
+        `(expected ${path.relative(process.cwd(), file)}). ` +
+        'Run the build with NOTION_MODE=record to refresh the fixtures.',
+    );
+  }
+  const fixture = JSON.parse(fs.readFileSync(file, 'utf-8')) as Fixture<T>;
+  return fixture.response;
+}
+
+export function writeFixture(kind: string, request: unknown, response: unknown) {
+  const file = fixtureFile(kind, request);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const fixture: Fixture<unknown> = { kind, request, response };
+  fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + '\n');
+}
+
+// ---------------------------------------------------------------------------
+// Manifest — remembers which database ids were recorded
+// ---------------------------------------------------------------------------
+
+function readManifest(): Manifest | null {
+  if (!fs.existsSync(MANIFEST_FILE)) return null;
+  return JSON.parse(fs.readFileSync(MANIFEST_FILE, 'utf-8')) as Manifest;
+}
+
+/** Value of an env var as it was when the fixtures were recorded. */
+export function getRecordedEnv(name: string): string | undefined {
+  return readManifest()?.env[name];
+}
+
+export function recordEnv(name: string, value: string) {
+  const manifest = readManifest() ?? { recordedAt: '', env: {} };
+  if (manifest.env[name] === value && manifest.recordedAt) return;
+  manifest.env[name] = value;
+  manifest.recordedAt = new Date().toISOString();
+  fs.mkdirSync(FIXTURES_DIR, { recursive: true });
+  fs.writeFileSync(MANIFEST_FILE, JSON.stringify(manifest, null, 2) + '\n');
+}
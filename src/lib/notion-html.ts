@@ -0,0 +1,239 @@
+// ---------------------------------------------------------------------------
+// Notion blocks → standalone HTML (feeds)
+// ---------------------------------------------------------------------------
+// NotionRenderer only works inside Astro components, so feeds get their HTML
+// from here instead. The output is plain, self-contained markup for feed
+// readers: no scripts and no styling classes (the only ones are the
+// `language-…` hint on code blocks and KaTeX's wrapper span), every text node
+// and attribute escaped, only http(s)/mailto links, and absolute URLs for
+// links and images. Equations are rendered as MathML so they don't need the
+// KaTeX stylesheet.
+// ---------------------------------------------------------------------------
+
+import type { BlockObjectResponse, RichTextItemResponse } from '@notionhq/client/build/src/api-endpoints';
+import katex from 'katex';
+import { richTextToPlain } from './notion';
+import { localizeAsset } from './assets';
+import { getRouteIndex, normalizeNotionId, resolveRichTextLink, type PageRoute } from './links';
+import { formatTimestamp, getBlockVideo, watchUrlAt } from './video';
+
+export interface HtmlOptions {
+  /** Site origin used to make links and images absolute */
+  site: URL | string;
+}
+
+interface Context {
+  site: URL;
+  routes: Map<string, PageRoute>;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/** Absolute http(s)/mailto URL, or null for anything else (javascript:…). */
+function safeUrl(href: string, site: URL): string | null {
+  try {
+    const url = new URL(href, site);
+    return ['http:', 'https:', 'mailto:'].includes(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function children(block: BlockObjectResponse): BlockObjectResponse[] {
+  return ((block as any).children as BlockObjectResponse[] | undefined) ?? [];
+}
+
+// ---------------------------------------------------------------------------
+// Rich text
+// ---------------------------------------------------------------------------
+
+function richText(items: RichTextItemResponse[], ctx: Context): string {
+  return items
+    .map((item) => {
+      if (item.type === 'equation') {
+        return katex.renderToString(item.equation.expression, { throwOnError: false, output: 'mathml' });
+      }
+
+      let html = escapeHtml(item.plain_text).replace(/\n/g, '<br>');
+      const { annotations } = item;
+      if (annotations.code) html = `<code>${html}</code>`;
+      if (annotations.bold) html = `<strong>${html}</strong>`;
+      if (annotations.italic) html = `<em>${html}</em>`;
+      if (annotations.strikethrough) html = `<s>${html}</s>`;
+      if (annotations.underline) html = `<u>${html}</u>`;
+
+      const link = resolveRichTextLink(item, ctx.routes);
+      const href = link ? safeUrl(link.href, ctx.site) : null;
+      return href ? `<a href="${escapeHtml(href)}">${html}</a>` : html;
+    })
+    .join('');
+}
+
+function caption(data: any, ctx: Context): string {
+  return data.caption?.length > 0 ? richText(data.caption, ctx) : '';
+}
+
+// ---------------------------------------------------------------------------
+// Blocks
+// ---------------------------------------------------------------------------
+
+async function blocksHtml(blocks: BlockObjectResponse[], ctx: Context): Promise<string> {
+  const out: string[] = [];
+  // Consecutive list items are grouped into one <ul>/<ol>
+  let listTag: 'ul' | 'ol' | null = null;
+  let listItems: string[] = [];
+
+  const flush = () => {
+    if (listTag) out.push(`<${listTag}>${listItems.join('')}</${listTag}>`);
+    listTag = null;
+    listItems = [];
+  };
+
+  for (const block of blocks) {
+    if (block.type === 'bulleted_list_item' || block.type === 'numbered_list_item') {
+      const tag = block.type === 'bulleted_list_item' ? 'ul' : 'ol';
+      if (listTag !== tag) {
+        flush();
+        listTag = tag;
+      }
+      const data = (block as any)[block.type];
+      listItems.push(`<li>${richText(data.rich_text, ctx)}${await blocksHtml(children(block), ctx)}</li>`);
+      continue;
+    }
+    flush();
+    out.push(await blockHtml(block, ctx));
+  }
+  flush();
+  return out.filter(Boolean).join('\n');
+}
+
+/** Link to a published page; unpublished ones are left out (the page render reports them). */
+function pageLink(pageId: string, ctx: Context): string {
+  const route = ctx.routes.get(normalizeNotionId(pageId));
+  if (!route) return '';
+  return `<p><a href="${escapeHtml(new URL(route.href, ctx.site).href)}">${escapeHtml(route.title)}</a></p>`;
+}
+
+async function blockHtml(block: BlockObjectResponse, ctx: Context): Promise<string> {
+  const data = (block as any)[block.type] ?? {};
+  const inner = () => blocksHtml(children(block), ctx);
+
+  switch (block.type) {
+    case 'paragraph': {
+      const text = richText(data.rich_text, ctx);
+      return text ? `<p>${text}</p>${await inner()}` : '';
+    }
+    case 'heading_1':
+    case 'heading_2':
+    case 'heading_3': {
+      const tag = { heading_1: 'h2', heading_2: 'h3', heading_3: 'h4' }[block.type];
+      return `<${tag}>${richText(data.rich_text, ctx)}</${tag}>${await inner()}`;
+    }
+    case 'quote':
+      return `<blockquote><p>${richText(data.rich_text, ctx)}</p>${await inner()}</blockquote>`;
+    case 'callout': {
+      const icon = data.icon?.type === 'emoji' ? `${escapeHtml(data.icon.emoji)} ` : '';
+      return `<blockquote><p>${icon}${richText(data.rich_text, ctx)}</p>${await inner()}</blockquote>`;
+    }
+    case 'toggle':
+      return `<details><summary>${richText(data.rich_text, ctx)}</summary>${await inner()}</details>`;
+    case 'to_do': {
+      const mark = data.checked ? '☑' : '☐';
+      return `<p>${mark} ${richText(data.rich_text, ctx)}</p>${await inner()}`;
+    }
+    case 'code': {
+      const language = data.language && data.language !== 'plain text' ? ` class="language-${escapeHtml(data.language.replace(/ /g, '-'))}"` : '';
+      return `<pre><code${language}>${escapeHtml(richTextToPlain(data.rich_text))}</code></pre>`;
+    }
+    case 'equation':
+      return `<p>${katex.renderToString(data.expression, { throwOnError: false, output: 'mathml', displayMode: true })}</p>`;
+    case 'divider':
+      return '<hr>';
+
+    case 'image': {
+      const asset = await localizeAsset(data.type === 'file' ? data.file.url : data.external?.url ?? '');
+      const url = asset.src ? safeUrl(asset.src, ctx.site) : null;
+      if (!url) return '';
+      const alt = escapeHtml(data.caption?.length > 0 ? richTextToPlain(data.caption) : '');
+      const size = asset.width && asset.height ? ` width="${asset.width}" height="${asset.height}"` : '';
+      const figcaption = caption(data, ctx);
+      return `<figure><img src="${escapeHtml(url)}" alt="${alt}"${size}>${figcaption ? `<figcaption>${figcaption}</figcaption>` : ''}</figure>`;
+    }
+    case 'video':
+    case 'embed': {
+      // Feed readers drop iframes: link to the video (with its thumbnail and chapters if known)
+      const video = getBlockVideo(block);
+      if (video) {
+        const url = escapeHtml(video.source.url);
+        const label = escapeHtml(video.caption || video.source.url);
+        const thumb = video.source.thumbnailUrl ? `<a href="${url}"><img src="${escapeHtml(video.source.thumbnailUrl)}" alt=""></a><br>` : '';
+        const chapters = video.chapters.map((c) =>
+          `<li><a href="${escapeHtml(watchUrlAt(video.source, c.start))}">${formatTimestamp(c.start)}</a> ${escapeHtml(c.title)}</li>`);
+        return `<p>${thumb}<a href="${url}">▶ ${label}</a></p>${chapters.length ? `<ul>${chapters.join('')}</ul>` : ''}`;
+      }
+      const href = block.type === 'embed' ? data.url : data.external?.url;
+      const url = href ? safeUrl(href, ctx.site) : null;
+      if (!url) return '';
+      return `<p><a href="${escapeHtml(url)}">▶ ${caption(data, ctx) || escapeHtml(url)}</a></p>`;
+    }
+    case 'file':
+    case 'pdf':
+    case 'audio': {
+      const src = data.type === 'file' ? (await localizeAsset(data.file.url)).src : data.external?.url;
+      const url = src ? safeUrl(src, ctx.site) : null;
+      if (!url) return '';
+      const label = caption(data, ctx) || escapeHtml(data.name || url);
+      return `<p><a href="${escapeHtml(url)}">${label}</a></p>`;
+    }
+    case 'bookmark':
+    case 'link_preview': {
+      const url = data.url ? safeUrl(data.url, ctx.site) : null;
+      if (!url) return '';
+      return `<p><a href="${escapeHtml(url)}">${caption(data, ctx) || escapeHtml(url)}</a></p>`;
+    }
+
+    case 'table': {
+      const rows = children(block).filter((row) => row.type === 'table_row');
+      const html = rows.map((row, i) => {
+        const tag = i === 0 && data.has_column_header ? 'th' : 'td';
+        const cells = (row as any).table_row.cells.map((cell: RichTextItemResponse[], j: number) => {
+          const cellTag = j === 0 && data.has_row_header ? 'th' : tag;
+          return `<${cellTag}>${richText(cell, ctx)}</${cellTag}>`;
+        });
+        return `<tr>${cells.join('')}</tr>`;
+      });
+      return `<table>${html.join('')}</table>`;
+    }
+
+    // Containers: their content, without the layout
+    case 'column_list':
+    case 'column':
+    case 'synced_block':
+      return inner();
+
+    case 'child_page':
+      return pageLink(block.id, ctx);
+    case 'link_to_page':
+      return data.type === 'page_id' ? pageLink(data.page_id, ctx) : '';
+
+    // Navigation blocks make no sense outside the page
+    case 'table_of_contents':
+    case 'breadcrumb':
+    case 'child_database':
+    default:
+      return '';
+  }
+}
+
+/** Self-contained HTML for a block tree (see the header for what "safe" means). */
+export async function blocksToHtml(blocks: BlockObjectResponse[], opts: HtmlOptions): Promise<string> {
+  const ctx: Context = { site: new URL(opts.site), routes: await getRouteIndex() };
+  return blocksHtml(blocks, ctx);
+}
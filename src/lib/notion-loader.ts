@@ -0,0 +1,287 @@
+// ---------------------------------------------------------------------------
+// notionLoader — a content collection backed by a Notion database
+// ---------------------------------------------------------------------------
+// One loader for every Notion collection. Each field of the entry is mapped
+// declaratively, either from a property:
+//
+//   title: prop.title(),
+//   order: prop.number('Orden'),
+//   tags: prop.multiSelect('Etiquetas').optional(),
+//
+// or with a function of the page for anything derived (covers, fallbacks…).
+// The map is typed against the collection's zod schema, so a field that's
+// missing, extra or of the wrong type fails `tsc`. At build time a property
+// that doesn't exist in the database, or has another type, is a content
+// error (src/lib/content-issues.ts) and the page is skipped — it never
+// silently becomes '' or 0. Empty properties read as `undefined`, so
+// defaults live in the schema (`z.number().default(0)`). Every entry is then
+// validated against the schema with Astro's parseData.
+//
+// A new collection is a few lines in content.config.ts:
+//
+//   const glosario = defineCollection({
+//     loader: notionLoader({
+//       name: 'glosario',
+//       dataSourceId: () => getDatabaseId('NOTION_GLOSSARY_DB'),
+//       schema: glosarioSchema,
+//       map: { term: prop.title(), definition: prop.text('Definición') },
+//     }),
+//     schema: glosarioSchema,
+//   });
+// ---------------------------------------------------------------------------
+
+import type { Loader } from 'astro/loaders';
+import type { z } from 'astro/zod';
+import {
+  getNotionMode,
+  getSlug,
+  getPageTitle,
+  propertyValue,
+  queryDatabase,
+  pruneCache,
+  getRequestStats,
+  formatRequestStats,
+  type DateRange,
+  type PageObjectResponse,
+  type PropertyPlainValue,
+  type PropertyType,
+  type PropertyValue,
+} from './notion';
+import { localizeCover, localizeIcon, type LocalAsset } from './assets';
+import { acceptEntry, clearContentIssues, reportContentIssue } from './content-issues';
+import { openSlugHistory, type SlugTracker } from './slug-history';
+
+// ---------------------------------------------------------------------------
+// Property fields
+// ---------------------------------------------------------------------------
+
+export interface PropertyField<T> {
+  /** Property name in Notion (undefined: the database's title property) */
+  readonly property: string | undefined;
+  readonly type: PropertyType;
+  readonly isOptional: boolean;
+  read(value: PropertyValue): T;
+  /** Allow the property to be absent from the database (reads as undefined). */
+  optional(): PropertyField<T | undefined>;
+}
+
+function field<T>(
+  property: string | undefined,
+  type: PropertyType,
+  read: (value: PropertyPlainValue | null) => T,
+  isOptional = false,
+): PropertyField<T> {
+  return {
+    property,
+    type,
+    isOptional,
+    read: (value) => read(propertyValue(value)),
+    optional: () => field<T | undefined>(property, type, read, true),
+  };
+}
+
+const text = (value: PropertyPlainValue | null) => (value as string | null) ?? '';
+const maybe = <T>(value: PropertyPlainValue | null) => (value ?? undefined) as T | undefined;
+const list = (value: PropertyPlainValue | null) => (value as string[] | null) ?? [];
+
+/**
+ * Readers for every Notion property type. Text reads as '' when empty;
+ * lists as []; everything else as undefined.
+ */
+export const prop = {
+  /** The title property, whatever it's called */
+  title: (name?: string) => field(name, 'title', text),
+  text: (name: string) => field(name, 'rich_text', text),
+  number: (name: string) => field(name, 'number', maybe<number>),
+  checkbox: (name: string) => field(name, 'checkbox', (value) => value === true),
+  select: (name: string) => field(name, 'select', maybe<string>),
+  multiSelect: (name: string) => field(name, 'multi_select', list),
+  status: (name: string) => field(name, 'status', maybe<string>),
+  /** Start of the date (ISO date or date-time) */
+  date: (name: string) => field(name, 'date', (value) => (value as DateRange | null)?.start),
+  /** Start and, for ranges, end */
+  dateRange: (name: string) => field(name, 'date', maybe<DateRange>),
+  url: (name: string) => field(name, 'url', maybe<string>),
+  email: (name: string) => field(name, 'email', maybe<string>),
+  phone: (name: string) => field(name, 'phone_number', maybe<string>),
+  /** Ids of the related pages */
+  relation: (name: string) => field(name, 'relation', list),
+  /** Names of the people */
+  people: (name: string) => field(name, 'people', list),
+  /** File URLs (Notion-hosted ones expire: localize them in a map function) */
+  files: (name: string) => field(name, 'files', list),
+  formula: (name: string) => field(name, 'formula', maybe<string | number | boolean | DateRange>),
+  rollup: (name: string) => field(name, 'rollup', maybe<PropertyPlainValue>),
+  /** "PREFIX-12" */
+  uniqueId: (name: string) => field(name, 'unique_id', maybe<string>),
+  createdTime: (name: string) => field(name, 'created_time', maybe<string>),
+  lastEditedTime: (name: string) => field(name, 'last_edited_time', maybe<string>),
+};
+
+// ---------------------------------------------------------------------------
+// Field map
+// ---------------------------------------------------------------------------
+
+/** What a map function gets besides the page. */
+export interface EntryContext {
+  /** Collection name, for content issues */
+  collection: string;
+  /** Entry id (the slug) */
+  id: string;
+  title: string;
+  /** Page cover / image icon, downloaded if Notion hosts it (once per page) */
+  cover(): Promise<LocalAsset | null>;
+  icon(): Promise<LocalAsset | null>;
+  /** Slug history (src/lib/slug-history.ts), saved after the load */
+  slugHistory: SlugTracker;
+}
+
+export type FieldMapper<T> = PropertyField<T> | ((page: PageObjectResponse, entry: EntryContext) => T | Promise<T>);
+
+/** One mapper per schema field; fields with a default or optional may be left out. */
+export type FieldMap<Data> = { [K in keyof Data]: FieldMapper<Data[K]> };
+
+export interface NotionLoaderOptions<Schema extends z.ZodTypeAny> {
+  /** Collection name, for logs and the content report */
+  name: string;
+  /** Resolved when the loader runs, e.g. `() => getDatabaseId('NOTION_BLOG_DB')` */
+  dataSourceId: () => string | undefined;
+  filter?: any;
+  sorts?: any[];
+  /** The collection's schema (only used to type `map`; pass it to defineCollection too) */
+  schema: Schema;
+  map: FieldMap<z.input<Schema>>;
+  /** Entry id; defaults to the Slug property or the slugified title */
+  slug?: (page: PageObjectResponse) => string;
+  /** Leave a page out without reporting it; return why (for the log) */
+  skip?: (page: PageObjectResponse) => string | false;
+}
+
+function isPropertyField(mapper: FieldMapper<unknown>): mapper is PropertyField<unknown> {
+  return typeof mapper === 'object' && mapper !== null && 'read' in mapper;
+}
+
+/** The page's property for a field, or an explanation of why it can't be read. */
+function findProperty(
+  page: PageObjectResponse,
+  mapper: PropertyField<unknown>,
+): { value: PropertyValue } | { missing: true } | { problem: string } {
+  const value = mapper.property === undefined
+    ? Object.values(page.properties).find((p) => p.type === 'title')
+    : page.properties[mapper.property];
+  const label = mapper.property === undefined ? 'The title property' : `Property "${mapper.property}"`;
+
+  if (!value) {
+    return mapper.isOptional ? { missing: true } : { problem: `${label} (${mapper.type}) doesn't exist in Notion` };
+  }
+  if (value.type !== mapper.type) {
+    return { problem: `${label} is a ${value.type} in Notion, expected ${mapper.type}` };
+  }
+  return { value };
+}
+
+// ---------------------------------------------------------------------------
+// Loader
+// ---------------------------------------------------------------------------
+
+/** Astro's schema error, minus its headline and Markdown, on one line. */
+function schemaProblems(error: Error): string {
+  return error.message
+    .replace(/\*\*/g, '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.includes('does not match collection schema'))
+    .join('; ');
+}
+
+export function notionLoader<Schema extends z.ZodTypeAny>(options: NotionLoaderOptions<Schema>): Loader {
+  const { name, map } = options;
+  const getSlugFor = options.slug ?? getSlug;
+
+  return {
+    name: `notion-${name}-loader`,
+    async load({ store, logger, parseData }) {
+      logger.info(`Fetching ${name} from Notion (${getNotionMode()} mode)...`);
+
+      const dataSourceId = options.dataSourceId();
+      const pages = dataSourceId
+        ? await queryDatabase({ dataSourceId, filter: options.filter, sorts: options.sorts })
+        : [];
+      if (!dataSourceId) logger.warn(`No Notion database for ${name}; the collection is empty`);
+      logger.info(`Found ${pages.length} pages`);
+
+      const pruned = pruneCache();
+      if (pruned > 0) logger.info(`Pruned ${pruned} stale block trees from the cache`);
+      logger.info(formatRequestStats(getRequestStats()));
+
+      store.clear();
+      clearContentIssues(name);
+      const seen = new Map<string, string>();
+      const slugHistory = openSlugHistory();
+      const skipped = new Map<string, number>();
+      // Property problems are the same on every page: report each once
+      const reported = new Set<string>();
+
+      for (const page of pages) {
+        const reason = options.skip?.(page);
+        if (reason) {
+          skipped.set(reason, (skipped.get(reason) ?? 0) + 1);
+          continue;
+        }
+
+        const id = getSlugFor(page);
+        const title = getPageTitle(page);
+        if (!acceptEntry(name, seen, { slug: id, title, pageId: page.id })) continue;
+
+        let cover: Promise<LocalAsset | null> | undefined;
+        let icon: Promise<LocalAsset | null> | undefined;
+        const entry: EntryContext = {
+          collection: name,
+          id,
+          title,
+          cover: () => (cover ??= localizeCover(page)),
+          icon: () => (icon ??= localizeIcon(page)),
+          slugHistory,
+        };
+
+        const data: Record<string, unknown> = {};
+        let complete = true;
+        for (const [key, mapper] of Object.entries(map) as [string, FieldMapper<unknown>][]) {
+          if (!isPropertyField(mapper)) {
+            data[key] = await mapper(page, entry);
+            continue;
+          }
+          const found = findProperty(page, mapper);
+          if ('problem' in found) {
+            if (!reported.has(found.problem)) {
+              reported.add(found.problem);
+              reportContentIssue({ level: 'error', collection: name, id, message: `${found.problem} (field "${key}")` });
+            }
+            complete = false;
+          } else {
+            data[key] = 'value' in found ? mapper.read(found.value) : undefined;
+          }
+        }
+        if (!complete) continue;
+
+        try {
+          store.set({ id, data: await parseData({ id, data }) });
+        } catch (error) {
+          reportContentIssue({
+            level: 'error',
+            collection: name,
+            id,
+            message: `Doesn't match the collection schema: ${schemaProblems(error as Error)}`,
+          });
+        }
+      }
+
+      for (const [reason, count] of skipped) logger.info(`Skipped ${count} ${reason} pages`);
+
+      // Replay builds reproduce a recording; only real runs extend the history
+      if (getNotionMode() !== 'replay' && slugHistory.save()) {
+        logger.info('Recorded new slugs in src/data/slug-history.json');
+      }
+    },
+  };
+}
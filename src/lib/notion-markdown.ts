@@ -0,0 +1,288 @@
+// ---------------------------------------------------------------------------
+// Notion blocks → Markdown / MDX
+// ---------------------------------------------------------------------------
+// Serializes a block tree (with the `children` getBlocks attaches) to text
+// that is valid both as GitHub-flavoured Markdown and as MDX: text is escaped
+// for both, and blocks Markdown has no syntax for use plain HTML elements
+// (callouts → <aside>, toggles → <details>, columns → <div>), the same way
+// Notion's own export does. Equations go in code (```math fences and $`…`$
+// spans, as GitHub renders them) so MDX never reads their braces as JSX.
+//
+// Used for the .md version of every lesson and post, llms.txt and the
+// content export (see src/lib/markdown-export.ts).
+// ---------------------------------------------------------------------------
+
+import type { BlockObjectResponse, RichTextItemResponse } from '@notionhq/client/build/src/api-endpoints';
+import { richTextToPlain } from './notion';
+import { localizeAsset } from './assets';
+import { getRouteIndex, normalizeNotionId, resolveRichTextLink, type PageRoute } from './links';
+import { formatTimestamp, getBlockVideo, watchUrlAt } from './video';
+
+export interface MarkdownOptions {
+  /** Make site links and images absolute (for files read outside the site) */
+  site?: URL | string;
+}
+
+interface Context {
+  site?: URL;
+  routes: Map<string, PageRoute>;
+}
+
+/** Notion code languages whose Markdown fence name differs. */
+const CODE_LANGUAGES: Record<string, string> = {
+  'plain text': '',
+  'c++': 'cpp',
+  'c#': 'csharp',
+  'f#': 'fsharp',
+  shell: 'bash',
+  'objective-c': 'objectivec',
+  'vb.net': 'vbnet',
+  'visual basic': 'vb',
+  'java/c/c++/c#': 'java',
+  'notion formula': 'notion-formula',
+};
+
+/** Escape what Markdown or MDX would otherwise read as syntax. */
+export function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]{}<>#|~$]/g, '\\$&');
+}
+
+function children(block: BlockObjectResponse): BlockObjectResponse[] {
+  return ((block as any).children as BlockObjectResponse[] | undefined) ?? [];
+}
+
+/** Link target: absolute when needed, with what would end `(…)` early percent-encoded. */
+function url(href: string, ctx: Context): string {
+  const target = ctx.site && href.startsWith('/') ? new URL(href, ctx.site).href : href;
+  return target.replace(/[\s()<>]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+}
+
+/** Shortest run of backticks that doesn't appear in `text`. */
+function fenceFor(text: string, min: number): string {
+  return '`'.repeat(Math.max(min, ...(text.match(/`+/g) ?? []).map((run) => run.length + 1)));
+}
+
+function indent(text: string, prefix: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? prefix + line : line))
+    .join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Rich text
+// ---------------------------------------------------------------------------
+
+/** Wrap in a marker, keeping the surrounding spaces outside (`** x **` isn't bold). */
+function wrap(text: string, open: string, close = open): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return match[2] ? `${match[1]}${open}${match[2]}${close}${match[3]}` : text;
+}
+
+function richText(items: RichTextItemResponse[], ctx: Context): string {
+  return items
+    .map((item) => {
+      // GitHub's $`…`$ math: the code span keeps `{`/`}` literal in MDX too
+      if (item.type === 'equation') {
+        const fence = fenceFor(item.equation.expression, 1);
+        const pad = fence.length > 1 ? ' ' : '';
+        return `$${fence}${pad}${item.equation.expression}${pad}${fence}$`;
+      }
+
+      const { annotations } = item;
+      // Code spans aren't escaped; one with backticks inside needs a double fence
+      let text = !annotations.code
+        ? escapeMarkdown(item.plain_text)
+        : item.plain_text.includes('`')
+          ? wrap(item.plain_text, '`` ', ' ``')
+          : wrap(item.plain_text, '`');
+      if (annotations.bold) text = wrap(text, '**');
+      if (annotations.italic) text = wrap(text, '_');
+      if (annotations.strikethrough) text = wrap(text, '~~');
+      if (annotations.underline) text = wrap(text, '<u>', '</u>');
+
+      const link = resolveRichTextLink(item, ctx.routes);
+      return link ? `[${text}](${url(link.href, ctx)})` : text;
+    })
+    .join('')
+    .replace(/\n/g, '<br />\n');
+}
+
+function caption(data: any, ctx: Context): string {
+  return data.caption?.length > 0 ? richText(data.caption, ctx) : '';
+}
+
+// ---------------------------------------------------------------------------
+// Blocks
+// ---------------------------------------------------------------------------
+
+async function blocksMarkdown(blocks: BlockObjectResponse[], ctx: Context): Promise<string> {
+  const out: string[] = [];
+  let number = 0;
+  let previous: string | null = null;
+
+  for (const block of blocks) {
+    number = block.type === 'numbered_list_item' ? (previous === 'numbered_list_item' ? number + 1 : 1) : 0;
+    const md = await blockMarkdown(block, ctx, number);
+    if (!md) continue;
+
+    // Items of the same list go on consecutive lines; everything else is a paragraph
+    const listItem = ['bulleted_list_item', 'numbered_list_item', 'to_do'].includes(block.type);
+    out.push(listItem && previous === block.type ? `\n${md}` : `${out.length ? '\n\n' : ''}${md}`);
+    previous = block.type;
+  }
+  return out.join('');
+}
+
+/** Children of a list item, indented under it. */
+async function nested(block: BlockObjectResponse, ctx: Context, width: number): Promise<string> {
+  const inner = await blocksMarkdown(children(block), ctx);
+  return inner ? `\n\n${indent(inner, ' '.repeat(width))}` : '';
+}
+
+/** HTML wrapper whose content is still Markdown (blank lines around it, as MDX needs). */
+function htmlBlock(open: string, content: string, close: string): string {
+  return content ? `${open}\n\n${content}\n\n${close}` : `${open}\n${close}`;
+}
+
+function pageLink(pageId: string, ctx: Context): string {
+  const route = ctx.routes.get(normalizeNotionId(pageId));
+  return route ? `[${escapeMarkdown(route.title)}](${url(route.href, ctx)})` : '';
+}
+
+async function blockMarkdown(block: BlockObjectResponse, ctx: Context, number: number): Promise<string> {
+  const data = (block as any)[block.type] ?? {};
+  const inner = () => blocksMarkdown(children(block), ctx);
+
+  switch (block.type) {
+    case 'paragraph': {
+      const text = richText(data.rich_text, ctx);
+      const rest = await inner();
+      return [text, rest].filter(Boolean).join('\n\n');
+    }
+    case 'heading_1':
+    case 'heading_2':
+    case 'heading_3': {
+      // Same levels as the site: the page title is the only h1
+      const hashes = { heading_1: '##', heading_2: '###', heading_3: '####' }[block.type];
+      const heading = `${hashes} ${richText(data.rich_text, ctx).replace(/<br \/>\n/g, ' ')}`;
+      const rest = await inner(); // toggleable headings keep their content as children
+      return rest ? `${heading}\n\n${rest}` : heading;
+    }
+    case 'bulleted_list_item':
+      return `- ${richText(data.rich_text, ctx)}${await nested(block, ctx, 2)}`;
+    case 'numbered_list_item': {
+      const marker = `${number}. `;
+      return `${marker}${richText(data.rich_text, ctx)}${await nested(block, ctx, marker.length)}`;
+    }
+    case 'to_do':
+      return `- [${data.checked ? 'x' : ' '}] ${richText(data.rich_text, ctx)}${await nested(block, ctx, 2)}`;
+    case 'quote': {
+      const content = [richText(data.rich_text, ctx), await inner()].filter(Boolean).join('\n\n');
+      return content.split('\n').map((line) => (line ? `> ${line}` : '>')).join('\n');
+    }
+    case 'callout': {
+      const icon = data.icon?.type === 'emoji' ? `${data.icon.emoji} ` : '';
+      const content = [`${icon}${richText(data.rich_text, ctx)}`, await inner()].filter(Boolean).join('\n\n');
+      return htmlBlock('<aside>', content, '</aside>');
+    }
+    case 'toggle':
+      return htmlBlock(`<details>\n<summary>${richText(data.rich_text, ctx)}</summary>`, await inner(), '</details>');
+    case 'code': {
+      const language = CODE_LANGUAGES[data.language] ?? data.language ?? '';
+      const code = richTextToPlain(data.rich_text);
+      // A longer fence than any run of backticks inside the code
+      const fence = fenceFor(code, 3);
+      const text = `${fence}${language}\n${code}\n${fence}`;
+      const note = caption(data, ctx);
+      return note ? `${text}\n\n${note}` : text;
+    }
+    case 'equation': {
+      // A ```math fence rather than $$: MDX would read `{…}` in TeX as JSX
+      const fence = fenceFor(data.expression, 3);
+      return `${fence}math\n${data.expression}\n${fence}`;
+    }
+    case 'divider':
+      return '---';
+
+    case 'image': {
+      const asset = await localizeAsset(data.type === 'file' ? data.file.url : data.external?.url ?? '');
+      if (!asset.src) return '';
+      const alt = data.caption?.length > 0 ? escapeMarkdown(richTextToPlain(data.caption)) : '';
+      const note = caption(data, ctx);
+      const image = `![${alt.replace(/\n/g, ' ')}](${url(asset.src, ctx)})`;
+      return note ? `${image}\n\n_${note}_` : image;
+    }
+    case 'video':
+    case 'embed': {
+      const video = getBlockVideo(block);
+      if (video) {
+        const link = `[▶ ${escapeMarkdown(video.caption || video.source.url)}](${url(video.source.url, ctx)})`;
+        const chapters = video.chapters.map(
+          (c) => `- [${formatTimestamp(c.start)}](${url(watchUrlAt(video.source, c.start), ctx)}) ${escapeMarkdown(c.title)}`,
+        );
+        return chapters.length ? `${link}\n\n${chapters.join('\n')}` : link;
+      }
+      const href = block.type === 'embed' ? data.url : data.external?.url;
+      return href ? `[▶ ${caption(data, ctx) || escapeMarkdown(href)}](${url(href, ctx)})` : '';
+    }
+    case 'file':
+    case 'pdf':
+    case 'audio': {
+      const asset = await localizeAsset(data.type === 'file' ? data.file.url : data.external?.url ?? '');
+      if (!asset.src) return '';
+      return `[${caption(data, ctx) || escapeMarkdown(data.name || asset.src)}](${url(asset.src, ctx)})`;
+    }
+    case 'bookmark':
+    case 'link_preview':
+      return data.url ? `[${caption(data, ctx) || escapeMarkdown(data.url)}](${url(data.url, ctx)})` : '';
+
+    case 'table': {
+      const rows: string[][] = children(block)
+        .filter((row) => row.type === 'table_row')
+        .map((row) =>
+          (row as any).table_row.cells.map((cell: RichTextItemResponse[]) =>
+            richText(cell, ctx).replace(/<br \/>\n/g, '<br />'),
+          ),
+        );
+      if (rows.length === 0) return '';
+      // GFM tables always have a header row: an empty one if Notion's has none
+      const header = data.has_column_header ? rows.shift()! : rows[0].map(() => '');
+      const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+      return [line(header), line(header.map(() => '---')), ...rows.map(line)].join('\n');
+    }
+
+    case 'column_list': {
+      const columns = await Promise.all(
+        children(block).map(async (column) =>
+          htmlBlock('<div class="notion-column">', await blocksMarkdown(children(column), ctx), '</div>'),
+        ),
+      );
+      return `<div class="notion-columns">\n\n${columns.join('\n\n')}\n\n</div>`;
+    }
+    case 'column':
+    case 'synced_block':
+      return inner();
+
+    case 'child_page':
+      return pageLink(block.id, ctx);
+    case 'link_to_page':
+      return data.type === 'page_id' ? pageLink(data.page_id, ctx) : '';
+
+    // Navigation and database views have no text of their own
+    case 'table_of_contents':
+    case 'breadcrumb':
+    case 'child_database':
+    default:
+      return '';
+  }
+}
+
+/** Markdown (and MDX) for a block tree. */
+export async function blocksToMarkdown(blocks: BlockObjectResponse[], opts: MarkdownOptions = {}): Promise<string> {
+  const ctx: Context = {
+    site: opts.site ? new URL(opts.site) : undefined,
+    routes: await getRouteIndex(),
+  };
+  return blocksMarkdown(blocks, ctx);
+}
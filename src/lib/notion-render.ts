@@ -0,0 +1,84 @@
+// ---------------------------------------------------------------------------
+// Notion render context — shared by NotionRenderer and the *Block components
+// ---------------------------------------------------------------------------
+// Routes that render Notion content set `Astro.locals.notionPage` before
+// rendering, so deeply nested blocks (table_of_contents, breadcrumb…) can see
+// the whole page, and unsupported blocks can be reported with their page id.
+// ---------------------------------------------------------------------------
+
+import type { BlockObjectResponse } from '@notionhq/client/build/src/api-endpoints';
+
+export interface Crumb {
+  label: string;
+  href?: string;
+}
+
+export interface NotionPageContext {
+  /** Notion page id */
+  id: string;
+  /** Site route of the page, for the build report */
+  path: string;
+  /** Top-level blocks of the page (with nested `children`) */
+  blocks: BlockObjectResponse[];
+  /** Same trail as the page header, for Notion `breadcrumb` blocks */
+  breadcrumb: Crumb[];
+}
+
+// ---------------------------------------------------------------------------
+// Unsupported blocks — collected while rendering, listed at the end of the build
+// ---------------------------------------------------------------------------
+
+export interface UnsupportedBlock {
+  type: string;
+  blockId: string;
+  pageId: string;
+  path: string;
+}
+
+// Lives on globalThis: every prerendered page shares one list with the
+// build-report integration (see src/integrations/notion-build-report.ts)
+const UNSUPPORTED_KEY = Symbol.for('aprendenotion.notion-unsupported-blocks');
+
+export function getUnsupportedBlocks(): UnsupportedBlock[] {
+  const g = globalThis as any;
+  if (!g[UNSUPPORTED_KEY]) g[UNSUPPORTED_KEY] = [];
+  return g[UNSUPPORTED_KEY];
+}
+
+export function reportUnsupportedBlock(block: BlockObjectResponse, page: NotionPageContext | undefined) {
+  const list = getUnsupportedBlocks();
+  if (list.some((b) => b.blockId === block.id)) return;
+  list.push({
+    type: block.type,
+    blockId: block.id,
+    pageId: page?.id ?? 'unknown',
+    path: page?.path ?? 'unknown',
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Unresolved links — links/mentions to Notion pages that aren't published
+// ---------------------------------------------------------------------------
+
+export interface UnresolvedLink {
+  /** Notion page id the link points to */
+  target: string;
+  text: string;
+  pageId: string;
+  path: string;
+}
+
+const UNRESOLVED_KEY = Symbol.for('aprendenotion.notion-unresolved-links');
+
+export function getUnresolvedLinks(): UnresolvedLink[] {
+  const g = globalThis as any;
+  if (!g[UNRESOLVED_KEY]) g[UNRESOLVED_KEY] = [];
+  return g[UNRESOLVED_KEY];
+}
+
+export function reportUnresolvedLink(target: string, text: string, page: NotionPageContext | undefined) {
+  const list = getUnresolvedLinks();
+  const pageId = page?.id ?? 'unknown';
+  if (list.some((l) => l.target === target && l.pageId === pageId)) return;
+  list.push({ target, text, pageId, path: page?.path ?? 'unknown' });
+}
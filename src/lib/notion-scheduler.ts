@@ -0,0 +1,187 @@
+// ---------------------------------------------------------------------------
+// Notion request scheduler — rate limit, concurrency and retries
+// ---------------------------------------------------------------------------
+// Notion allows an average of 3 requests per second per integration. Every
+// call made through `getClient()` is queued here so that parallel block
+// fetches never exceed that, and throttled (429), failing (5xx) or timed-out
+// requests are retried with backoff instead of failing the whole build.
+// ---------------------------------------------------------------------------
+
+import {
+  APIErrorCode,
+  APIResponseError,
+  ClientErrorCode,
+  UnknownHTTPResponseError,
+  isNotionClientError,
+} from '@notionhq/client';
+
+export interface SchedulerOptions {
+  /** Requests in flight at the same time */
+  concurrency: number;
+  /** Average requests started per second */
+  requestsPerSecond: number;
+  /** Retries per request before giving up */
+  maxRetries: number;
+  /** First backoff delay; doubles on every retry */
+  baseDelayMs: number;
+}
+
+export interface RequestStats {
+  requests: number;
+  retries: number;
+  rateLimited: number;
+  failures: number;
+  /** Total time spent waiting on Notion, summed over all requests */
+  timeMs: number;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  concurrency: 3,
+  requestsPerSecond: 3,
+  maxRetries: 5,
+  baseDelayMs: 500,
+};
+
+// Stats live on globalThis: content loaders and prerendered pages load their
+// own copies of this module during a build, but should report one total.
+const STATS_KEY = Symbol.for('aprendenotion.notion-request-stats');
+
+function emptyStats(): RequestStats {
+  return { requests: 0, retries: 0, rateLimited: 0, failures: 0, timeMs: 0 };
+}
+
+export function getRequestStats(): RequestStats {
+  const g = globalThis as any;
+  if (!g[STATS_KEY]) g[STATS_KEY] = emptyStats();
+  return g[STATS_KEY];
+}
+
+export function resetRequestStats() {
+  (globalThis as any)[STATS_KEY] = emptyStats();
+}
+
+export function formatRequestStats(stats: RequestStats): string {
+  const seconds = (stats.timeMs / 1000).toFixed(1);
+  return (
+    `${stats.requests} Notion requests, ${stats.retries} retries ` +
+    `(${stats.rateLimited} rate-limited), ${stats.failures} failures, ${seconds}s spent`
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Retry policy
+// ---------------------------------------------------------------------------
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Seconds from a Retry-After header (delta-seconds or HTTP date), in ms. */
+function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+interface RetryDecision {
+  retry: boolean;
+  rateLimited: boolean;
+  delayMs?: number;
+}
+
+/** The client types response headers as `unknown`; with the built-in fetch they're `Headers`. */
+function retryAfterHeader(headers: unknown): string | null {
+  return headers instanceof Headers ? headers.get('retry-after') : null;
+}
+
+function classifyError(error: unknown): RetryDecision {
+  if (APIResponseError.isAPIResponseError(error) && error.code === APIErrorCode.RateLimited) {
+    const delayMs = parseRetryAfter(retryAfterHeader(error.headers));
+    return { retry: true, rateLimited: true, delayMs: delayMs ?? undefined };
+  }
+  // 5xx pages from a proxy aren't JSON, so they come back as UnknownHTTPResponseError
+  if (APIResponseError.isAPIResponseError(error) || UnknownHTTPResponseError.isUnknownHTTPResponseError(error)) {
+    return { retry: error.status >= 500, rateLimited: false };
+  }
+  if (isNotionClientError(error)) {
+    return { retry: error.code === ClientErrorCode.RequestTimeout, rateLimited: false };
+  }
+  // Network errors (ECONNRESET, DNS hiccups…) surface as plain TypeErrors from fetch
+  return { retry: error instanceof TypeError, rateLimited: false };
+}
+
+// ---------------------------------------------------------------------------
+// Scheduler
+// ---------------------------------------------------------------------------
+
+export interface RequestScheduler {
+  run<T>(call: () => Promise<T>): Promise<T>;
+}
+
+export function createScheduler(options: Partial<SchedulerOptions> = {}): RequestScheduler {
+  const opts = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+  const interval = 1000 / opts.requestsPerSecond;
+  const waiting: (() => void)[] = [];
+  let active = 0;
+  let nextStart = 0;
+
+  /** Wait for a free slot and for the rate limit's next start time. */
+  async function acquire() {
+    if (active >= opts.concurrency) {
+      // release() hands its slot straight over, so `active` already counts us
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    } else {
+      active++;
+    }
+    const now = Date.now();
+    const startAt = Math.max(now, nextStart);
+    nextStart = startAt + interval;
+    if (startAt > now) await sleep(startAt - now);
+  }
+
+  function release() {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  }
+
+  async function attempt<T>(call: () => Promise<T>): Promise<T> {
+    const stats = getRequestStats();
+    await acquire();
+    const started = Date.now();
+    try {
+      stats.requests++;
+      return await call();
+    } finally {
+      stats.timeMs += Date.now() - started;
+      release();
+    }
+  }
+
+  return {
+    async run<T>(call: () => Promise<T>): Promise<T> {
+      const stats = getRequestStats();
+
+      for (let retry = 0; ; retry++) {
+        try {
+          return await attempt(call);
+        } catch (error) {
+          const decision = classifyError(error);
+          if (!decision.retry || retry >= opts.maxRetries) {
+            stats.failures++;
+            throw error;
+          }
+
+          stats.retries++;
+          if (decision.rateLimited) {
+            stats.rateLimited++;
+            // Hold back every queued request, not just this one
+            nextStart = Math.max(nextStart, Date.now() + (decision.delayMs ?? 0));
+          }
+          const backoff = opts.baseDelayMs * 2 ** retry * (0.5 + Math.random() / 2);
+          await sleep(decision.delayMs ?? backoff);
+        }
+      }
+    },
+  };
+}
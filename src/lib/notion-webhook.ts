@@ -0,0 +1,317 @@
+// ---------------------------------------------------------------------------
+// Notion webhooks — drop stale cache entries and queue a rebuild
+// ---------------------------------------------------------------------------
+// Notion sends `page.content_updated` and `page.properties_updated` events
+// to the server in scripts/notion-webhook.ts. For each one:
+//
+// 1. The `X-Notion-Signature` header is checked against the verification
+//    token Notion sent when the subscription was created
+//    (NOTION_WEBHOOK_SECRET).
+// 2. The page is mapped to a lesson, post or module: by the database it
+//    lives in (the event's parent) or, failing that, by the cached queries
+//    that returned it (see getPageDataSources() in notion-cache.ts).
+// 3. Its `db-*` entries are dropped from `.notion-cache/`, and its
+//    `blocks-*` tree too when the content changed. Notion's
+//    last_edited_time only has minute precision, so without this an edit
+//    made right after a build could keep an outdated tree.
+// 4. The page joins the rebuild queue. Edits come in bursts, so the
+//    rebuild hook (NOTION_REBUILD_HOOK) is only called once no event has
+//    arrived for a while, with every page that changed in the body.
+// ---------------------------------------------------------------------------
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import * as http from 'node:http';
+import { getPageDataSources, invalidateCache } from './notion-cache';
+import { getPageSlugs } from './slug-history';
+
+export const HANDLED_EVENTS = ['page.content_updated', 'page.properties_updated'] as const;
+export type HandledEvent = (typeof HANDLED_EVENTS)[number];
+
+/** What a page is on the site. */
+export type ContentKind = 'lesson' | 'post' | 'module';
+
+/** The part of a Notion webhook event we read. */
+export interface NotionWebhookEvent {
+  id: string;
+  timestamp: string;
+  type: string;
+  entity: { id: string; type: string };
+  data?: {
+    parent?: { id: string; type: string; data_source_id?: string };
+  };
+}
+
+export interface ContentChange {
+  pageId: string;
+  kind: ContentKind;
+  /** Slugs the page has been published under (src/data/slug-history.json) */
+  slugs: string[];
+  events: HandledEvent[];
+}
+
+export interface WebhookLogger {
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+const consoleLogger: WebhookLogger = {
+  info: (message) => console.log(`[notion-webhook] ${message}`),
+  warn: (message) => console.warn(`[notion-webhook] ${message}`),
+  error: (message) => console.error(`[notion-webhook] ${message}`),
+};
+
+// ---------------------------------------------------------------------------
+// Signature
+// ---------------------------------------------------------------------------
+
+/** `sha256=<hex>` — the HMAC-SHA256 of the raw body, keyed with the verification token. */
+export function signPayload(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+export function verifySignature(body: string, signature: string | undefined, secret: string): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(signPayload(body, secret));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// ---------------------------------------------------------------------------
+// Page → lesson, post or module
+// ---------------------------------------------------------------------------
+
+/** Data source id of each collection, as in .env (NOTION_LESSONS_DB…). */
+export type ContentDatabases = Partial<Record<ContentKind, string>>;
+
+const normalizeId = (id: string) => id.replace(/-/g, '').toLowerCase();
+
+/**
+ * What the event's page is, and the data source its cache entries are
+ * keyed on; null for pages outside the three databases (a subpage, a page
+ * elsewhere in the workspace).
+ */
+export function resolvePage(
+  event: NotionWebhookEvent,
+  databases: ContentDatabases,
+): { kind: ContentKind; dataSourceId: string } | null {
+  const entries = Object.entries(databases).filter((entry): entry is [ContentKind, string] => Boolean(entry[1]));
+  const match = (id: string | undefined) => id && entries.find(([, dbId]) => normalizeId(dbId) === normalizeId(id));
+
+  const parent = event.data?.parent;
+  const byParent = match(parent?.data_source_id) || match(parent?.id);
+  if (byParent) return { kind: byParent[0], dataSourceId: byParent[1] };
+
+  for (const dataSourceId of getPageDataSources(event.entity.id)) {
+    const byCache = match(dataSourceId);
+    if (byCache) return { kind: byCache[0], dataSourceId: byCache[1] };
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Rebuild queue
+// ---------------------------------------------------------------------------
+
+export interface RebuildQueueOptions {
+  /** URL to POST to (Netlify/Vercel/Cloudflare build hook, a CI dispatch…) */
+  hookUrl?: string;
+  /** Quiet time after the last event before rebuilding */
+  debounceMs: number;
+  /** Longest a change waits while events keep coming */
+  maxWaitMs: number;
+  logger?: WebhookLogger;
+}
+
+export interface RebuildQueue {
+  add(change: ContentChange): void;
+  /** Call the hook now with whatever is pending. */
+  flush(): Promise<void>;
+  pending(): ContentChange[];
+  /** Cancel the timer (pending changes are kept). */
+  close(): void;
+}
+
+export function createRebuildQueue(options: RebuildQueueOptions): RebuildQueue {
+  const { hookUrl, debounceMs, maxWaitMs, logger = consoleLogger } = options;
+  const pending = new Map<string, ContentChange>();
+  let timer: NodeJS.Timeout | undefined;
+  let firstAt = 0;
+  let running: Promise<void> | null = null;
+
+  function schedule() {
+    clearTimeout(timer);
+    const wait = Math.max(0, Math.min(debounceMs, firstAt + maxWaitMs - Date.now()));
+    timer = setTimeout(() => void flush(), wait);
+  }
+
+  async function trigger(changes: ContentChange[]) {
+    const summary = changes.map((c) => `${c.kind} ${c.slugs.at(-1) ?? c.pageId}`).join(', ');
+    if (!hookUrl) {
+      logger.warn(`NOTION_REBUILD_HOOK is not set; a rebuild would cover: ${summary}`);
+      return;
+    }
+    const response = await fetch(hookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ trigger: 'notion-webhook', changes }),
+    });
+    if (!response.ok) throw new Error(`rebuild hook answered ${response.status}`);
+    logger.info(`Rebuild requested for ${summary}`);
+  }
+
+  async function flush() {
+    clearTimeout(timer);
+    timer = undefined;
+    // One rebuild at a time: changes that arrive meanwhile wait for the next one
+    if (running) await running;
+    if (!pending.size) return;
+
+    const changes = [...pending.values()];
+    pending.clear();
+    running = trigger(changes)
+      .catch((error) => {
+        logger.error(`${(error as Error).message}; retrying in ${debounceMs / 1000}s`);
+        for (const change of changes) if (!pending.has(change.pageId)) pending.set(change.pageId, change);
+        firstAt = Date.now();
+        schedule();
+      })
+      .finally(() => {
+        running = null;
+      });
+    await running;
+  }
+
+  return {
+    add(change) {
+      const known = pending.get(change.pageId);
+      if (!pending.size) firstAt = Date.now();
+      pending.set(change.pageId, known ? { ...change, events: [...new Set([...known.events, ...change.events])] } : change);
+      schedule();
+    },
+    flush,
+    pending: () => [...pending.values()],
+    close() {
+      clearTimeout(timer);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Handler
+// ---------------------------------------------------------------------------
+
+export interface WebhookHandlerOptions {
+  /** Verification token of the subscription; unset until Notion sends it */
+  secret?: string;
+  databases: ContentDatabases;
+  queue: RebuildQueue;
+  logger?: WebhookLogger;
+}
+
+export interface WebhookResult {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+/** Handles one request body; the HTTP side lives in createWebhookServer(). */
+export function createWebhookHandler(options: WebhookHandlerOptions) {
+  const { secret, databases, queue, logger = consoleLogger } = options;
+
+  return function handle(body: string, signature: string | undefined): WebhookResult {
+    let payload: any;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      return { status: 400, body: { error: 'invalid JSON' } };
+    }
+
+    // Creating the subscription: Notion sends the token once, unsigned. Once
+    // the secret is set, only signed requests get through, this one included
+    const verification = typeof payload?.verification_token === 'string' && !payload.type;
+    if (verification && !secret) {
+      logger.info(
+        `Verification token: ${payload.verification_token} — paste it in Notion to verify the subscription and set it as NOTION_WEBHOOK_SECRET`,
+      );
+      return { status: 200, body: { ok: true } };
+    }
+
+    if (!secret) return { status: 503, body: { error: 'NOTION_WEBHOOK_SECRET is not set' } };
+    if (!verifySignature(body, signature, secret)) {
+      logger.warn('Rejected a request with a missing or invalid signature');
+      return { status: 401, body: { error: 'invalid signature' } };
+    }
+    if (verification) return { status: 200, body: { ok: true } };
+
+    const event = payload as NotionWebhookEvent;
+    if (!HANDLED_EVENTS.includes(event.type as HandledEvent) || event.entity?.type !== 'page') {
+      return { status: 200, body: { ignored: `${event.type} events are not handled` } };
+    }
+
+    const page = resolvePage(event, databases);
+    if (!page) {
+      return { status: 200, body: { ignored: `page ${event.entity.id} is not a lesson, post or module` } };
+    }
+
+    const type = event.type as HandledEvent;
+    const removed = invalidateCache({
+      dataSourceId: page.dataSourceId,
+      pageId: type === 'page.content_updated' ? event.entity.id : undefined,
+    });
+    const slugs = getPageSlugs(event.entity.id);
+    logger.info(`${type}: ${page.kind} ${slugs.at(-1) ?? event.entity.id} (${removed} cache entries dropped)`);
+    queue.add({ pageId: event.entity.id, kind: page.kind, slugs, events: [type] });
+
+    return { status: 200, body: { kind: page.kind, removed } };
+  };
+}
+
+// ---------------------------------------------------------------------------
+// HTTP server
+// ---------------------------------------------------------------------------
+
+/** Largest body accepted; Notion's events are a few hundred bytes. */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface WebhookServerOptions extends WebhookHandlerOptions {
+  /** Path Notion posts to; anything else is a 404 */
+  path?: string;
+}
+
+/** Webhook server; call .listen(port) on it. */
+export function createWebhookServer(options: WebhookServerOptions): http.Server {
+  const handle = createWebhookHandler(options);
+  const endpoint = options.path ?? '/notion-webhook';
+
+  return http.createServer((req, res) => {
+    const reply = ({ status, body }: WebhookResult) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (new URL(req.url ?? '/', 'http://localhost').pathname !== endpoint) return reply({ status: 404, body: { error: 'not found' } });
+    if (req.method !== 'POST') return reply({ status: 405, body: { error: 'use POST' } });
+
+    // The body is read before its signature can be checked: cap it, so an
+    // unsigned request can't fill the memory
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+    req.on('data', (chunk: Buffer) => {
+      if (tooLarge) return;
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) return void chunks.push(chunk);
+
+      tooLarge = true;
+      chunks.length = 0;
+      res.setHeader('Connection', 'close');
+      reply({ status: 413, body: { error: `body larger than ${MAX_BODY_BYTES} bytes` } });
+      req.destroy();
+    });
+    req.on('end', () => {
+      if (tooLarge) return;
+      const signature = req.headers['x-notion-signature'];
+      reply(handle(Buffer.concat(chunks).toString('utf-8'), Array.isArray(signature) ? signature[0] : signature));
+    });
+  });
+}
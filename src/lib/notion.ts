@@ -1,51 +1,92 @@
-import { Client } from '@notionhq/client';
+import { APIErrorCode, Client, isNotionClientError } from '@notionhq/client';
 import type {
   BlockObjectResponse,
+  ListBlockChildrenParameters,
+  ListBlockChildrenResponse,
   PageObjectResponse,
+  QueryDataSourceParameters,
+  QueryDataSourceResponse,
   RichTextItemResponse,
 } from '@notionhq/client/build/src/api-endpoints';
-import * as fs from 'node:fs';
-import * as path from 'node:path';
+import {
+  type NotionMode,
+  resolveMode,
+  readFixture,
+  writeFixture,
+  getRecordedEnv,
+  recordEnv,
+} from './notion-fixtures';
+import {
+  queryCacheKey,
+  getCachedQuery,
+  setCachedQuery,
+  getCachedBlocks,
+  setCachedBlocks,
+  invalidateCache as invalidateStoredCache,
+  clearCache as clearStoredCache,
+  type InvalidateOptions,
+} from './notion-cache';
+import { createScheduler } from './notion-scheduler';
+import { isPreview, PREVIEW_STATUSES, PUBLISHED_STATUS } from './preview';
 
 // ---------------------------------------------------------------------------
-// Client (lazy init — env vars may not be available at import time)
+// Env helper (import.meta.env inside Astro, process.env in plain Node)
 // ---------------------------------------------------------------------------
 
-let _notion: Client | null = null;
-
-function getClient(): Client {
-  if (!_notion) {
-    const token = (import.meta as any).env?.NOTION_TOKEN ?? process.env.NOTION_TOKEN;
-    if (!token) throw new Error('NOTION_TOKEN is not set in .env');
-    _notion = new Client({ auth: token });
-  }
-  return _notion;
+function readEnv(name: string): string | undefined {
+  return (import.meta as any).env?.[name] ?? process.env[name];
 }
 
 // ---------------------------------------------------------------------------
-// Cache helpers  (file-system cache so builds don't re-fetch everything)
+// Mode — live API, record fixtures, or replay fixtures (see notion-fixtures.ts)
 // ---------------------------------------------------------------------------
 
-const CACHE_DIR = path.join(process.cwd(), '.notion-cache');
-const CACHE_TTL = 1000 * 60 * 5; // 5 min in dev, ignored in build
+let _mode: NotionMode | null = null;
+
+export function getNotionMode(): NotionMode {
+  if (!_mode) _mode = resolveMode(readEnv('NOTION_MODE'), Boolean(readEnv('NOTION_TOKEN')));
+  return _mode;
+}
 
-function ensureCacheDir() {
-  if (!fs.existsSync(CACHE_DIR)) fs.mkdirSync(CACHE_DIR, { recursive: true });
+/** Database id from .env; in replay mode, the one used when recording. */
+export function getDatabaseId(name: string): string | undefined {
+  const id = readEnv(name);
+  if (getNotionMode() === 'replay') return id ?? getRecordedEnv(name);
+  if (id && getNotionMode() === 'record') recordEnv(name, id);
+  return id;
 }
 
-function cacheGet<T>(key: string): T | null {
-  ensureCacheDir();
-  const file = path.join(CACHE_DIR, `${key}.json`);
-  if (!fs.existsSync(file)) return null;
-  const stat = fs.statSync(file);
-  const isDev = (import.meta as any).env?.DEV ?? process.env.NODE_ENV !== 'production';
-  if (isDev && Date.now() - stat.mtimeMs > CACHE_TTL) return null;
-  return JSON.parse(fs.readFileSync(file, 'utf-8')) as T;
+// ---------------------------------------------------------------------------
+// Client (lazy init — env vars may not be available at import time)
+// ---------------------------------------------------------------------------
+
+let _notion: Client | null = null;
+
+function getClient(): Client {
+  if (!_notion) {
+    const token = readEnv('NOTION_TOKEN');
+    if (!token) throw new Error('NOTION_TOKEN is not set in .env');
+    // NOTION_BASE_URL points the client at a local stand-in (e.g. to simulate throttling)
+    _notion = new Client({ auth: token, baseUrl: readEnv('NOTION_BASE_URL'), timeoutMs: 30_000 });
+  }
+  return _notion;
 }
 
-function cacheSet(key: string, data: unknown) {
-  ensureCacheDir();
-  fs.writeFileSync(path.join(CACHE_DIR, `${key}.json`), JSON.stringify(data));
+// Shared by every call so parallel fetches stay within Notion's rate limit
+const scheduler = createScheduler();
+
+/**
+ * Every API call goes through here: in replay mode the response comes from
+ * the fixtures, otherwise it is queued on the scheduler (rate limit + retries)
+ * and, in record mode, also saved to the fixtures.
+ */
+async function notionRequest<T>(kind: string, request: unknown, call: () => Promise<T>): Promise<T> {
+  const mode = getNotionMode();
+  if (mode === 'replay') return readFixture<T>(kind, request);
+
+  const response = await scheduler.run(call);
+  if (mode === 'record') writeFixture(kind, request, response);
+  return response;
 }
 
 // ---------------------------------------------------------------------------
@@ -93,6 +134,8 @@ export function getMultiSelect(page: PageObjectResponse, name: string): string[]
 export function getDate(page: PageObjectResponse, name: string): string {
   const p = prop(page, name);
   if (p?.type === 'date') return p.date?.start ?? '';
+  if (p?.type === 'last_edited_time') return p.last_edited_time;
+  if (p?.type === 'created_time') return p.created_time;
   return '';
 }
 
@@ -114,6 +157,144 @@ export function getUrl(page: PageObjectResponse, name: string): string {
   return '';
 }
 
+export function getStatus(page: PageObjectResponse, name: string): string {
+  const p = prop(page, name);
+  if (p?.type === 'status') return p.status?.name ?? '';
+  return '';
+}
+
+/** Ids of the pages a relation points to. */
+export function getRelation(page: PageObjectResponse, name: string): string[] {
+  const p = prop(page, name);
+  return p?.type === 'relation' ? (propertyValue(p) as string[]) : [];
+}
+
+/** Names of the people in a people property (ids for users the integration can't see). */
+export function getPeople(page: PageObjectResponse, name: string): string[] {
+  const p = prop(page, name);
+  return p?.type === 'people' ? (propertyValue(p) as string[]) : [];
+}
+
+/** File URLs — Notion-hosted ones expire; localize them with localizeAsset() in assets.ts. */
+export function getFiles(page: PageObjectResponse, name: string): string[] {
+  const p = prop(page, name);
+  return p?.type === 'files' ? (propertyValue(p) as string[]) : [];
+}
+
+export function getFormula(page: PageObjectResponse, name: string): string | number | boolean | null {
+  const p = prop(page, name);
+  return p?.type === 'formula' ? (propertyValue(p) as string | number | boolean | null) : null;
+}
+
+/** A rollup's number, date (start) or array of plain values; see propertyValue(). */
+export function getRollup(page: PageObjectResponse, name: string): PropertyPlainValue | null {
+  const p = prop(page, name);
+  return p?.type === 'rollup' ? propertyValue(p) : null;
+}
+
+/** "PREFIX-12", or just "12" when the ID property has no prefix. */
+export function getUniqueId(page: PageObjectResponse, name: string): string {
+  const p = prop(page, name);
+  return p?.type === 'unique_id' ? ((propertyValue(p) as string | null) ?? '') : '';
+}
+
+export interface DateRange {
+  start: string;
+  /** Only for ranges ("End date" turned on in Notion) */
+  end?: string;
+}
+
+export function getDateRange(page: PageObjectResponse, name: string): DateRange | null {
+  const p = prop(page, name);
+  if (p?.type === 'date' && p.date) return { start: p.date.start, end: p.date.end ?? undefined };
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Any property → plain value
+// ---------------------------------------------------------------------------
+
+export type PropertyValue = PageProps[string];
+export type PropertyType = PropertyValue['type'];
+export type PropertyPlainValue = string | number | boolean | string[] | DateRange | PropertyPlainValue[];
+
+function userName(user: { id: string; name?: string | null }): string {
+  return user.name || user.id;
+}
+
+/**
+ * The value of a property of any type, as plain data: text for text-like
+ * properties, numbers, booleans, string[] for multi-valued ones (names, page
+ * ids, file URLs) and a DateRange for dates. `null` when the property is
+ * empty, so callers can tell "empty" from "0" or "".
+ */
+export function propertyValue(p: PropertyValue): PropertyPlainValue | null {
+  switch (p.type) {
+    case 'title':
+      return richTextToPlain(p.title);
+    case 'rich_text':
+      return richTextToPlain(p.rich_text);
+    case 'number':
+      return p.number;
+    case 'checkbox':
+      return p.checkbox;
+    case 'select':
+      return p.select?.name ?? null;
+    case 'status':
+      return p.status?.name ?? null;
+    case 'multi_select':
+      return p.multi_select.map((option) => option.name);
+    case 'date':
+      return p.date ? { start: p.date.start, end: p.date.end ?? undefined } : null;
+    case 'url':
+      return p.url;
+    case 'email':
+      return p.email;
+    case 'phone_number':
+      return p.phone_number;
+    case 'relation':
+      return p.relation.map((rel) => rel.id);
+    case 'people':
+      return p.people.map((user) => userName(user as { id: string; name?: string | null }));
+    case 'files':
+      return p.files.map((file) => (file.type === 'file' ? file.file.url : file.external.url));
+    case 'created_time':
+      return p.created_time;
+    case 'last_edited_time':
+      return p.last_edited_time;
+    case 'created_by':
+      return userName(p.created_by as { id: string; name?: string | null });
+    case 'last_edited_by':
+      return userName(p.last_edited_by as { id: string; name?: string | null });
+    case 'unique_id':
+      if (p.unique_id.number === null) return null;
+      return p.unique_id.prefix ? `${p.unique_id.prefix}-${p.unique_id.number}` : String(p.unique_id.number);
+    case 'formula': {
+      const f = p.formula;
+      if (f.type === 'string') return f.string;
+      if (f.type === 'number') return f.number;
+      if (f.type === 'boolean') return f.boolean;
+      if (f.type === 'date') return f.date ? { start: f.date.start, end: f.date.end ?? undefined } : null;
+      return null;
+    }
+    case 'rollup': {
+      const r = p.rollup;
+      if (r.type === 'number') return r.number;
+      if (r.type === 'date') return r.date ? { start: r.date.start, end: r.date.end ?? undefined } : null;
+      if (r.type === 'array') {
+        return (r.array as PropertyValue[])
+          .map((item) => propertyValue(item))
+          .filter((value): value is PropertyPlainValue => value !== null);
+      }
+      return null;
+    }
+    default:
+      // button, verification, place: no value worth reading
+      return null;
+  }
+}
+
+/** Raw cover URL — Notion-hosted ones expire; see localizeCover() in assets.ts. */
 export function getCover(page: PageObjectResponse): string {
   if (!page.cover) return '';
   if (page.cover.type === 'external') return page.cover.external.url;
@@ -121,6 +302,11 @@ export function getCover(page: PageObjectResponse): string {
   return '';
 }
 
+/** Emoji icon of a page, or '' if the icon is an image (see localizeIcon()). */
+export function getEmoji(page: PageObjectResponse): string {
+  return page.icon?.type === 'emoji' ? page.icon.emoji : '';
+}
+
 export function getIcon(page: PageObjectResponse): string {
   if (!page.icon) return '';
   if (page.icon.type === 'emoji') return page.icon.emoji;
@@ -133,6 +319,15 @@ export function getIcon(page: PageObjectResponse): string {
 // Slug helper — from a page's "Slug" property or the title
 // ---------------------------------------------------------------------------
 
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // strip accents
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)/g, '');
+}
+
 export function getSlug(page: PageObjectResponse): string {
   // Try explicit Slug property first
   const slugProp = getRichText(page, 'Slug');
@@ -140,12 +335,7 @@ export function getSlug(page: PageObjectResponse): string {
 
   // Fall back to title-based slug
   const title = getTitle(page) || getTitle(page, 'Título') || getTitle(page, 'Title');
-  return title
-    .toLowerCase()
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '') // strip accents
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/(^-|-$)/g, '');
+  return slugify(title);
 }
 
 // ---------------------------------------------------------------------------
@@ -160,28 +350,36 @@ export interface QueryOptions {
 }
 
 export async function queryDatabase(opts: QueryOptions): Promise<PageObjectResponse[]> {
-  const cacheKey = `db-${opts.dataSourceId}`;
-  const cached = cacheGet<PageObjectResponse[]>(cacheKey);
+  // Record/replay must see every request, so the cache only applies live;
+  // preview skips it so edits in Notion show up right away
+  const useCache = getNotionMode() === 'live' && !isPreview();
+  const cacheKey = queryCacheKey(opts.dataSourceId, opts);
+  const cached = useCache ? getCachedQuery<PageObjectResponse[]>(cacheKey) : null;
   if (cached) return cached;
 
   const pages: PageObjectResponse[] = [];
   let cursor: string | undefined = undefined;
 
   do {
-    const response = await getClient().dataSources.query({
+    const params: QueryDataSourceParameters = {
       data_source_id: opts.dataSourceId,
       filter: opts.filter,
       sorts: opts.sorts,
       start_cursor: cursor,
       page_size: 100,
-    });
+    };
+    const response = await notionRequest<QueryDataSourceResponse>(
+      'dataSources.query',
+      params,
+      () => getClient().dataSources.query(params),
+    );
     for (const result of response.results) {
       if ('properties' in result) pages.push(result as PageObjectResponse);
     }
     cursor = response.has_more ? (response.next_cursor ?? undefined) : undefined;
   } while (cursor);
 
-  cacheSet(cacheKey, pages);
+  if (useCache) setCachedQuery(cacheKey, pages);
   return pages;
 }
 
@@ -189,100 +387,150 @@ export async function queryDatabase(opts: QueryOptions): Promise<PageObjectRespo
 // Get all blocks for a page (recursive, with cache)
 // ---------------------------------------------------------------------------
 
-export async function getBlocks(blockId: string): Promise<BlockObjectResponse[]> {
-  const cacheKey = `blocks-${blockId}`;
-  const cached = cacheGet<BlockObjectResponse[]>(cacheKey);
+/**
+ * Full block tree of a page. The cached tree is reused until the page's
+ * `last_edited_time` changes, so only edited pages are re-downloaded.
+ */
+export async function getBlocks(pageId: string): Promise<BlockObjectResponse[]> {
+  const useCache = getNotionMode() === 'live' && !isPreview();
+  const cached = useCache ? getCachedBlocks<BlockObjectResponse[]>(pageId) : null;
   if (cached) return cached;
 
+  const blocks = await fetchBlockTree(pageId);
+  if (useCache) setCachedBlocks(pageId, blocks);
+  return blocks;
+}
+
+async function fetchBlockTree(blockId: string): Promise<BlockObjectResponse[]> {
   const blocks: BlockObjectResponse[] = [];
   let cursor: string | undefined = undefined;
 
   do {
-    const response = await getClient().blocks.children.list({
+    const params: ListBlockChildrenParameters = {
       block_id: blockId,
       start_cursor: cursor,
       page_size: 100,
-    });
+    };
+    const response = await notionRequest<ListBlockChildrenResponse>(
+      'blocks.children.list',
+      params,
+      () => getClient().blocks.children.list(params),
+    );
     for (const block of response.results) {
-      if ('type' in block) {
-        const b = block as BlockObjectResponse;
-        blocks.push(b);
-        // Recursively get children
-        if (b.has_children) {
-          const children = await getBlocks(b.id);
-          (b as any).children = children;
-        }
-      }
+      if ('type' in block) blocks.push(block as BlockObjectResponse);
     }
     cursor = response.has_more ? (response.next_cursor ?? undefined) : undefined;
   } while (cursor);
 
-  cacheSet(cacheKey, blocks);
+  // Recursively get children — sibling subtrees in parallel (the scheduler
+  // keeps the number of requests in flight within the rate limit)
+  await Promise.all(
+    blocks
+      .filter((b) => b.has_children)
+      .map(async (b) => {
+        (b as any).children = await fetchBlockTree(b.id);
+      }),
+  );
+
   return blocks;
 }
 
 // ---------------------------------------------------------------------------
-// Image downloading (Notion file URLs expire after 1h)
+// Retrieve a single page (link_to_page blocks only carry the id)
 // ---------------------------------------------------------------------------
 
-const IMG_DIR = path.join(process.cwd(), 'public', 'images', 'notion');
-
-export async function downloadImage(url: string, filename: string): Promise<string> {
-  if (!fs.existsSync(IMG_DIR)) fs.mkdirSync(IMG_DIR, { recursive: true });
+const _pages = new Map<string, Promise<PageObjectResponse | null>>();
+
+/**
+ * The page, or null if it doesn't exist or the integration has no access to
+ * it. Any other error (rate limit, outage…) is thrown and isn't remembered.
+ */
+export function getPage(pageId: string): Promise<PageObjectResponse | null> {
+  if (!_pages.has(pageId)) {
+    const request = { page_id: pageId };
+    _pages.set(
+      pageId,
+      notionRequest('pages.retrieve', request, () => getClient().pages.retrieve(request))
+        .then((page) => ('properties' in page ? (page as PageObjectResponse) : null))
+        .catch((error) => {
+          if (
+            isNotionClientError(error) &&
+            (error.code === APIErrorCode.ObjectNotFound || error.code === APIErrorCode.RestrictedResource)
+          ) {
+            return null;
+          }
+          _pages.delete(pageId);
+          throw error;
+        }),
+    );
+  }
+  return _pages.get(pageId)!;
+}
 
-  const ext = url.includes('.png') ? '.png' : url.includes('.gif') ? '.gif' : '.jpg';
-  const safeName = filename.replace(/[^a-z0-9-]/gi, '-') + ext;
-  const filePath = path.join(IMG_DIR, safeName);
-  const publicPath = `/images/notion/${safeName}`;
+/** Title of any page, whatever its title property is called. */
+export function getPageTitle(page: PageObjectResponse): string {
+  const titleProp = Object.values(page.properties).find((p) => p.type === 'title');
+  return titleProp?.type === 'title' ? richTextToPlain(titleProp.title) : '';
+}
 
-  // Skip if already downloaded
-  if (fs.existsSync(filePath)) return publicPath;
+// ---------------------------------------------------------------------------
+// Status filter of the blog and lessons databases
+// ---------------------------------------------------------------------------
 
-  const res = await fetch(url);
-  if (!res.ok) return url; // fallback to original URL
-  const buffer = Buffer.from(await res.arrayBuffer());
-  fs.writeFileSync(filePath, buffer);
-  return publicPath;
+/** Published pages only; in preview mode drafts too (see preview.ts). */
+export function statusFilter() {
+  if (!isPreview()) return { property: 'Estado', select: { equals: PUBLISHED_STATUS } };
+  return { or: PREVIEW_STATUSES.map((status) => ({ property: 'Estado', select: { equals: status } })) };
 }
 
 // ---------------------------------------------------------------------------
-// Convenience: fetch published blog posts
+// Convenience: fetch published lessons (the modules loader groups them; same
+// query as the lessons collection in content.config.ts, so one cache entry)
 // ---------------------------------------------------------------------------
 
-export async function getBlogPosts() {
-  const dbId = (import.meta as any).env?.NOTION_BLOG_DB ?? process.env.NOTION_BLOG_DB;
+export async function getLessons() {
+  const dbId = getDatabaseId('NOTION_LESSONS_DB');
   if (!dbId) return [];
 
   return queryDatabase({
     dataSourceId: dbId,
-    filter: {
-      property: 'Estado',
-      select: { equals: 'Publicado' },
-    },
-    sorts: [{ property: 'Fecha', direction: 'descending' }],
+    filter: statusFilter(),
+    sorts: [{ property: 'Orden', direction: 'ascending' }],
   });
 }
 
 // ---------------------------------------------------------------------------
-// Convenience: fetch published lessons
+// Convenience: fetch course modules (optional database — see course-modules.ts)
 // ---------------------------------------------------------------------------
 
-export async function getLessons() {
-  const dbId = (import.meta as any).env?.NOTION_LESSONS_DB ?? process.env.NOTION_LESSONS_DB;
-  if (!dbId) return [];
+export async function getModules() {
+  const dbId = getDatabaseId('NOTION_MODULES_DB');
+  if (!dbId) return null;
 
   return queryDatabase({
     dataSourceId: dbId,
-    filter: {
-      property: 'Estado',
-      select: { equals: 'Publicado' },
-    },
     sorts: [{ property: 'Orden', direction: 'ascending' }],
   });
 }
 
 // ---------------------------------------------------------------------------
-// Re-export types for convenience
+// Cache maintenance, request stats and types
 // ---------------------------------------------------------------------------
 
+/** Drop cached entries, on disk and the pages getPage() keeps in memory. */
+export function invalidateCache(opts: InvalidateOptions): number {
+  // Which data source a remembered page belongs to isn't known: forget them all
+  if (opts.pageId && !opts.dataSourceId) _pages.delete(opts.pageId);
+  else _pages.clear();
+  return invalidateStoredCache(opts);
+}
+
+/** Drop the whole cache, on disk and in memory. */
+export function clearCache() {
+  _pages.clear();
+  clearStoredCache();
+}
+
+export { pruneCache } from './notion-cache';
+export { getRequestStats, resetRequestStats, formatRequestStats } from './notion-scheduler';
 export type { BlockObjectResponse, PageObjectResponse, RichTextItemResponse };
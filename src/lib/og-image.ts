@@ -0,0 +1,140 @@
+// ---------------------------------------------------------------------------
+// Imágenes Open Graph — una tarjeta de 1200×630 por página, en el build
+// ---------------------------------------------------------------------------
+// satori convierte la tarjeta (título, emoji, contexto) en un SVG con el
+// texto ya trazado, y sharp lo pasa a PNG. Todo sale de node_modules: la
+// fuente Inter de @fontsource/inter y los emoji de @twemoji/svg, así que
+// funciona sin red. Las rutas /og/… (src/pages/og/[...path].png.ts) sirven
+// las tarjetas y cada página las enlaza con ogImagePath() en BaseLayout.
+// ---------------------------------------------------------------------------
+
+import { readFileSync, existsSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import satori from 'satori';
+import sharp from 'sharp';
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+export type OgSection = 'curso' | 'blog' | 'herramientas';
+
+export interface OgCard {
+  title: string;
+  emoji?: string;
+  /** Línea de arriba: "Curso de Notion · Fórmulas" */
+  eyebrow: string;
+  /** Línea de abajo: "Lección 2 de 5", el precio… */
+  detail?: string;
+}
+
+/** Ruta de la imagen de una página: /og/curso/<slug>.png */
+export function ogImagePath(section: OgSection, slug: string): string {
+  return `/og/${section}/${slug}.png`;
+}
+
+// ---------------------------------------------------------------------------
+// Fuentes y emoji
+// ---------------------------------------------------------------------------
+
+const require = createRequire(import.meta.url);
+
+let fonts: { name: string; data: Buffer; weight: 400 | 600 | 800; style: 'normal' }[] | undefined;
+
+function loadFonts() {
+  fonts ??= ([400, 600, 800] as const).map((weight) => ({
+    name: 'Inter',
+    data: readFileSync(require.resolve(`@fontsource/inter/files/inter-latin-${weight}-normal.woff`)),
+    weight,
+    style: 'normal' as const,
+  }));
+  return fonts;
+}
+
+/** Nombre del fichero de Twemoji: "1f4d8", "1f469-200d-1f4bb"… */
+function twemojiName(emoji: string): string {
+  // Sin el selector de variación, salvo en las secuencias con ZWJ
+  const text = emoji.includes('\u200d') ? emoji : emoji.replace(/\uFE0F/g, '');
+  return [...text].map((char) => char.codePointAt(0)!.toString(16)).join('-');
+}
+
+/** El emoji como data URI SVG, o null si Twemoji no lo tiene. */
+function emojiImage(emoji: string): string | null {
+  let file: string;
+  try {
+    file = require.resolve(`@twemoji/svg/${twemojiName(emoji)}.svg`);
+  } catch {
+    return null;
+  }
+  if (!existsSync(file)) return null;
+  return `data:image/svg+xml;base64,${readFileSync(file).toString('base64')}`;
+}
+
+// ---------------------------------------------------------------------------
+// Tarjeta
+// ---------------------------------------------------------------------------
+
+// Elementos de satori sin React: { type, props: { style, children } }
+type Node = { type: string; props: Record<string, unknown> };
+const el = (type: string, style: Record<string, unknown>, children?: unknown, props: Record<string, unknown> = {}): Node => ({
+  type,
+  props: { style, children, ...props },
+});
+
+const COLORS = {
+  text: '#37352F',
+  secondary: '#6B6B6B',
+  accent: '#6C7D07',
+  background: '#F7F6F3',
+};
+
+function card({ title, emoji, eyebrow, detail }: OgCard): Node {
+  const emojiSrc = emoji ? emojiImage(emoji) : null;
+  return el(
+    'div',
+    {
+      width: '100%',
+      height: '100%',
+      display: 'flex',
+      flexDirection: 'column',
+      justifyContent: 'space-between',
+      padding: '64px 80px',
+      background: COLORS.background,
+      borderLeft: `24px solid ${COLORS.accent}`,
+      fontFamily: 'Inter',
+      color: COLORS.text,
+    },
+    [
+      el('div', { display: 'flex', flexDirection: 'column' }, [
+        el('div', { fontSize: 28, fontWeight: 600, color: COLORS.accent, marginBottom: 32 }, eyebrow),
+        emojiSrc ? el('img', { marginBottom: 28 }, undefined, { src: emojiSrc, width: 96, height: 96 }) : null,
+        el(
+          'div',
+          {
+            display: 'block',
+            fontSize: title.length > 60 ? 56 : 68,
+            fontWeight: 800,
+            lineHeight: 1.15,
+            letterSpacing: '-0.02em',
+            lineClamp: 3,
+          },
+          title,
+        ),
+      ]),
+      el('div', { display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: 28 }, [
+        el('div', { color: COLORS.secondary, fontWeight: 600 }, detail ?? ''),
+        el('div', { fontWeight: 800 }, 'aprendenotion.com'),
+      ]),
+    ],
+  );
+}
+
+export async function renderOgImage(data: OgCard): Promise<Uint8Array<ArrayBuffer>> {
+  const svg = await satori(card(data) as any, {
+    width: OG_IMAGE_WIDTH,
+    height: OG_IMAGE_HEIGHT,
+    fonts: loadFonts(),
+    // Emoji dentro del título
+    loadAdditionalAsset: async (code, segment) => (code === 'emoji' ? emojiImage(segment) ?? '' : []),
+  });
+  return new Uint8Array(await sharp(Buffer.from(svg)).png().toBuffer());
+}
@@ -0,0 +1,64 @@
+// ---------------------------------------------------------------------------
+// Modo preview — borradores de Notion antes de publicarlos
+// ---------------------------------------------------------------------------
+// Con NOTION_PREVIEW=true (npm run dev:preview, o build:preview para una
+// build aparte en dist-preview/):
+//   - los loaders traen también las páginas en Borrador y En revisión, que se
+//     pintan con un aviso de "borrador" y noindex
+//   - las consultas y los bloques no pasan por la caché (.notion-cache), así
+//     que con el servidor de desarrollo cada recarga muestra lo último de Notion
+//   - los borradores no entran en el sitemap, los feeds ni la exportación
+//   - los posts programados (Fecha futura) se ven como "Programado"
+//
+// Sin imports de astro:content: astro.config.mjs usa este módulo para el
+// filtro del sitemap.
+// ---------------------------------------------------------------------------
+
+export const PUBLISHED_STATUS = 'Publicado';
+
+/** Valores de la propiedad Estado que se ven en preview. */
+export const PREVIEW_STATUSES = [PUBLISHED_STATUS, 'Borrador', 'En revisión'];
+
+export function isPreview(): boolean {
+  // Astro sustituye "true" y "1" en import.meta.env por el booleano y el número
+  const value = String((import.meta as any).env?.NOTION_PREVIEW ?? process.env.NOTION_PREVIEW);
+  return value === 'true' || value === '1';
+}
+
+/**
+ * Estado con el que se ven en preview los posts publicados con Fecha futura.
+ * Fuera de preview no se cargan hasta la primera build en su fecha.
+ */
+export const SCHEDULED_STATUS = 'Programado';
+
+/** ¿Cae una fecha de Notion (día, o día y hora) en el futuro? */
+export function isFutureDate(date: string, now = new Date()): boolean {
+  const time = Date.parse(date);
+  return !Number.isNaN(time) && time > now.getTime();
+}
+
+/** ¿Es una entrada (post o lección) un borrador? */
+export function isDraft(data: { status: string }): boolean {
+  return data.status !== PUBLISHED_STATUS;
+}
+
+// Vive en globalThis: las páginas de borradores se registran al pintarse y el
+// sitemap (otra instancia del módulo) las consulta al final del build.
+const DRAFTS_KEY = Symbol.for('aprendenotion.draft-pages');
+
+function getDraftPages(): Set<string> {
+  const g = globalThis as any;
+  if (!g[DRAFTS_KEY]) g[DRAFTS_KEY] = new Set<string>();
+  return g[DRAFTS_KEY];
+}
+
+const normalize = (pathname: string) => pathname.replace(/\/+$/, '') || '/';
+
+export function registerDraftPage(pathname: string) {
+  getDraftPages().add(normalize(pathname));
+}
+
+/** ¿Es esta ruta la de un borrador? (con o sin barra final) */
+export function isDraftPage(pathname: string): boolean {
+  return getDraftPages().has(normalize(pathname));
+}
@@ -0,0 +1,140 @@
+// ---------------------------------------------------------------------------
+// Progreso del curso — lecciones completadas, guardadas en el navegador
+// ---------------------------------------------------------------------------
+// Sin cuentas: el progreso vive en localStorage y se puede exportar a un
+// fichero .json e importar en otro navegador (se suma al que haya). El
+// índice del curso (`CourseOutline`) lo genera el build con
+// getCourseOutline() de course-modules.ts y lo pinta CourseProgress.astro;
+// este módulo no importa nada del servidor porque lo usa el script de ese
+// componente.
+// ---------------------------------------------------------------------------
+
+export const PROGRESS_STORAGE_KEY = 'aprendenotion:curso-progreso';
+export const PROGRESS_FILE_NAME = 'progreso-curso-notion.json';
+
+export interface OutlineLesson {
+  slug: string;
+  title: string;
+  href: string;
+}
+
+export interface OutlineModule {
+  slug: string;
+  title: string;
+  href: string;
+  /** Lecciones que cuentan para el progreso, en orden (sin la intro del módulo) */
+  lessons: OutlineLesson[];
+}
+
+/** Módulos del curso, en orden. */
+export type CourseOutline = OutlineModule[];
+
+export interface ProgressState {
+  version: 1;
+  /** Lección completada → fecha ISO en que se marcó */
+  completed: Record<string, string>;
+  /** Última lección visitada */
+  lastLesson?: string;
+}
+
+export function emptyProgress(): ProgressState {
+  return { version: 1, completed: {} };
+}
+
+/** Progreso leído de localStorage o de un fichero importado; null si no lo es. */
+export function parseProgress(raw: unknown): ProgressState | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const data = raw as Partial<ProgressState>;
+  if (data.version !== 1 || !data.completed || typeof data.completed !== 'object') return null;
+
+  const completed: Record<string, string> = {};
+  for (const [slug, date] of Object.entries(data.completed)) {
+    if (typeof date === 'string') completed[slug] = date;
+  }
+  return {
+    version: 1,
+    completed,
+    lastLesson: typeof data.lastLesson === 'string' ? data.lastLesson : undefined,
+  };
+}
+
+export function readProgress(storage: Storage): ProgressState {
+  try {
+    return parseProgress(JSON.parse(storage.getItem(PROGRESS_STORAGE_KEY) ?? 'null')) ?? emptyProgress();
+  } catch {
+    return emptyProgress();
+  }
+}
+
+export function writeProgress(storage: Storage, progress: ProgressState) {
+  try {
+    storage.setItem(PROGRESS_STORAGE_KEY, JSON.stringify(progress));
+  } catch {
+    // Modo privado o almacenamiento lleno: el progreso dura lo que la pestaña
+  }
+}
+
+export function setCompleted(progress: ProgressState, slug: string, done: boolean, now = new Date()): ProgressState {
+  const completed = { ...progress.completed };
+  if (done) completed[slug] ??= now.toISOString();
+  else delete completed[slug];
+  return { ...progress, completed };
+}
+
+/** Suma dos progresos (p. ej. el del navegador y uno importado). */
+export function mergeProgress(current: ProgressState, imported: ProgressState): ProgressState {
+  const completed = { ...current.completed };
+  for (const [slug, date] of Object.entries(imported.completed)) {
+    // Si está en los dos, se queda la fecha más antigua
+    if (!completed[slug] || date < completed[slug]) completed[slug] = date;
+  }
+  return { version: 1, completed, lastLesson: current.lastLesson ?? imported.lastLesson };
+}
+
+/** Fichero de exportación: el mismo formato que localStorage, legible. */
+export function serializeProgress(progress: ProgressState): string {
+  return JSON.stringify(progress, null, 2) + '\n';
+}
+
+// ---------------------------------------------------------------------------
+// Sobre el índice del curso
+// ---------------------------------------------------------------------------
+
+export interface ProgressCount {
+  done: number;
+  total: number;
+}
+
+export function moduleProgress(mod: OutlineModule, progress: ProgressState): ProgressCount {
+  return {
+    done: mod.lessons.filter((lesson) => progress.completed[lesson.slug]).length,
+    total: mod.lessons.length,
+  };
+}
+
+export function courseProgress(outline: CourseOutline, progress: ProgressState): ProgressCount {
+  return outline.reduce(
+    (sum, mod) => {
+      const { done, total } = moduleProgress(mod, progress);
+      return { done: sum.done + done, total: sum.total + total };
+    },
+    { done: 0, total: 0 },
+  );
+}
+
+/**
+ * Dónde seguir: la primera lección sin completar en el orden del curso
+ * (módulo a módulo). null si no queda ninguna.
+ */
+export function nextLesson(outline: CourseOutline, progress: ProgressState): OutlineLesson | null {
+  for (const mod of outline) {
+    const lesson = mod.lessons.find((l) => !progress.completed[l.slug]);
+    if (lesson) return lesson;
+  }
+  return null;
+}
+
+/** ¿Ha empezado el curso? (ha completado o visitado alguna lección) */
+export function hasStarted(progress: ProgressState): boolean {
+  return Boolean(progress.lastLesson) || Object.keys(progress.completed).length > 0;
+}
@@ -0,0 +1,57 @@
+// ---------------------------------------------------------------------------
+// Tiempo de lectura de los posts — igual para Notion y para MDX
+// ---------------------------------------------------------------------------
+// Se cuentan las palabras del texto que ve el lector: en Notion, el texto de
+// los bloques (con sus hijos); en los posts MDX, el cuerpo sin la sintaxis
+// de Markdown ni las etiquetas HTML. Luego, 200 palabras por minuto.
+// ---------------------------------------------------------------------------
+
+import type { BlockObjectResponse } from '@notionhq/client/build/src/api-endpoints';
+import { richTextToPlain } from './notion';
+import { DEFAULT_LOCALE, t, type Locale } from './i18n';
+
+const WORDS_PER_MINUTE = 200;
+
+/** Palabras de un texto; "—", "|" y demás signos sueltos no cuentan. */
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+/** "5 min de lectura" / "5 min read" (como mínimo 1). */
+export function formatReadingTime(words: number, locale: Locale = DEFAULT_LOCALE): string {
+  return t(locale, 'blog.readingTime', { n: Math.max(1, Math.ceil(words / WORDS_PER_MINUTE)) });
+}
+
+function blockWords(blocks: BlockObjectResponse[]): number {
+  let words = 0;
+  for (const block of blocks) {
+    const data = (block as any)[block.type];
+    if (Array.isArray(data?.rich_text)) words += countWords(richTextToPlain(data.rich_text));
+    const children = (block as any).children as BlockObjectResponse[] | undefined;
+    if (children?.length) words += blockWords(children);
+  }
+  return words;
+}
+
+/**
+ * Texto plano de un cuerpo Markdown/MDX: sin etiquetas, sin las URLs de
+ * enlaces e imágenes y sin los signos de formato (#, *, `, >…).
+ */
+export function markdownToPlain(markdown: string): string {
+  return markdown
+    .replace(/^(import|export)\s.*$/gm, '')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_`~]+/g, '')
+    .replace(/[ \t]+/g, ' ')
+    .trim();
+}
+
+export function blocksReadingTime(blocks: BlockObjectResponse[], locale: Locale = DEFAULT_LOCALE): string {
+  return formatReadingTime(blockWords(blocks), locale);
+}
+
+export function markdownReadingTime(markdown: string, locale: Locale = DEFAULT_LOCALE): string {
+  return formatReadingTime(countWords(markdownToPlain(markdown)), locale);
+}
@@ -0,0 +1,60 @@
+// ---------------------------------------------------------------------------
+// Redirecciones
+// ---------------------------------------------------------------------------
+// Dos fuentes, servidas por src/pages/[...redirect].astro:
+//   - LEGACY_REDIRECTS: las páginas estáticas antiguas (/rollups, /bases-datos…)
+//     que hoy viven en /curso/. Para retirar otra, bórrala de src/pages y
+//     añádela aquí.
+//   - El historial de slugs (slug-history.ts): cuando una lección o un post
+//     cambia de slug en Notion, su URL antigua lleva a la nueva.
+//
+// Sin imports de astro:content: astro.config.mjs usa este módulo para dejar
+// las URLs redirigidas fuera del sitemap.
+// ---------------------------------------------------------------------------
+
+export interface Redirect {
+  from: string;
+  to: string;
+}
+
+export const LEGACY_REDIRECTS: Record<string, string> = {
+  '/introduccion-espacio-trabajo': '/curso/introduccion-espacio-trabajo',
+  '/paginas-bloques': '/curso/paginas-bloques',
+  '/bases-datos': '/curso/bases-datos',
+  '/introduccion-bases-datos': '/curso/introduccion-bases-datos',
+  '/filtros-ordenacion': '/curso/filtros-ordenacion',
+  '/vistas-bases-datos': '/curso/vistas-bases-datos',
+  '/templates': '/curso/templates',
+  '/nuevas-bases-de-datos': '/curso/nuevas-bases-de-datos',
+  '/relations-rollups': '/curso/relations-rollups',
+  '/relations': '/curso/relations',
+  '/rollups': '/curso/rollups',
+  '/formulas': '/curso/formulas',
+  '/introduccion-formulas': '/curso/introduccion-formulas',
+  '/formulas-avanzadas': '/curso/formulas-avanzadas',
+  '/barras-de-progreso-notion': '/curso/barras-de-progreso-notion',
+  '/api-notion': '/curso/crear-integraciones-api-notion',
+  '/crear-integraciones-api-notion': '/curso/crear-integraciones-api-notion',
+};
+
+// Vive en globalThis: la ruta de redirecciones las registra durante el build
+// y el sitemap (otra instancia del módulo) las consulta al final.
+const SOURCES_KEY = Symbol.for('aprendenotion.redirect-sources');
+
+function getSources(): Set<string> {
+  const g = globalThis as any;
+  if (!g[SOURCES_KEY]) g[SOURCES_KEY] = new Set(Object.keys(LEGACY_REDIRECTS));
+  return g[SOURCES_KEY];
+}
+
+const normalize = (pathname: string) => pathname.replace(/\/+$/, '') || '/';
+
+export function registerRedirects(redirects: Redirect[]) {
+  const sources = getSources();
+  for (const r of redirects) sources.add(normalize(r.from));
+}
+
+/** ¿Es esta ruta solo una redirección? (con o sin barra final) */
+export function isRedirectSource(pathname: string): boolean {
+  return getSources().has(normalize(pathname));
+}
@@ -0,0 +1,155 @@
+// ---------------------------------------------------------------------------
+// Índice de búsqueda — se genera en el build (src/pages/search-index.json.ts)
+// ---------------------------------------------------------------------------
+// Lecciones y posts se indexan desde los mismos árboles de bloques que pinta
+// NotionRenderer, partidos en secciones por sus headings (con el mismo id de
+// anchor que HeadingBlock, ver toc.ts), así un resultado lleva directo a la
+// sección. Los posts locales en MDX se parten igual, por sus headings de
+// Markdown, con los ids que les da Astro al renderizarlos.
+// ---------------------------------------------------------------------------
+
+import { getCollection, render } from 'astro:content';
+import type { MarkdownHeading } from 'astro';
+import type { BlockObjectResponse } from '@notionhq/client/build/src/api-endpoints';
+import { getBlocks, richTextToPlain } from './notion';
+import { getHeadingIds } from './toc';
+import { markdownToPlain } from './reading-time';
+import { DEFAULT_LOCALE, inLocale } from './i18n';
+import type { SearchDocument, SearchKind } from './search';
+
+/** Texto plano de un bloque y sus hijos. */
+function blockText(block: BlockObjectResponse): string {
+  const data = (block as any)[block.type] ?? {};
+  const parts: string[] = [];
+  if (Array.isArray(data.rich_text)) parts.push(richTextToPlain(data.rich_text));
+  if (Array.isArray(data.cells)) parts.push(data.cells.map(richTextToPlain).join(' '));
+  if (Array.isArray(data.caption)) parts.push(richTextToPlain(data.caption));
+  if (typeof data.title === 'string') parts.push(data.title);
+
+  const children = (block as any).children as BlockObjectResponse[] | undefined;
+  if (children?.length) parts.push(...children.map(blockText));
+  return parts.filter(Boolean).join('\n');
+}
+
+/**
+ * Un documento para la página (descripción + lo que hay antes del primer
+ * heading) y otro por cada heading del TOC con su contenido hasta el siguiente.
+ */
+function pageDocuments(
+  kind: SearchKind,
+  url: string,
+  title: string,
+  description: string,
+  blocks: BlockObjectResponse[],
+): SearchDocument[] {
+  const page: SearchDocument = { kind, url, title, text: description };
+  const docs: SearchDocument[] = [page];
+  const headingIds = getHeadingIds(blocks);
+  let current = page;
+
+  for (const block of blocks) {
+    // Cada heading_1/heading_2 de primer nivel abre una sección
+    const id = block.type !== 'heading_3' ? headingIds.get(block.id) : undefined;
+    const heading = id ? richTextToPlain((block as any)[block.type].rich_text) : '';
+    if (id && heading.trim()) {
+      current = { kind, url: `${url}#${id}`, title, section: heading, text: '' };
+      docs.push(current);
+      // Los headings desplegables guardan su contenido como hijos
+      const children = (block as any).children as BlockObjectResponse[] | undefined;
+      if (children?.length) current.text = children.map(blockText).join('\n');
+      continue;
+    }
+    const text = blockText(block);
+    if (text) current.text = current.text ? `${current.text}\n${text}` : text;
+  }
+
+  // Una sección vacía no aporta nada que no diga ya su heading en la página
+  return docs.filter((d) => d === page || d.text.trim());
+}
+
+/** Lo mismo para un post MDX: `headings` son los de render(), en orden. */
+function markdownDocuments(
+  kind: SearchKind,
+  url: string,
+  title: string,
+  description: string,
+  body: string,
+  headings: MarkdownHeading[],
+): SearchDocument[] {
+  const page: SearchDocument = { kind, url, title, text: description };
+  const docs: SearchDocument[] = [page];
+  let current = page;
+  let lines: string[] = [];
+  let next = 0;
+  let fenced = false;
+
+  const flush = () => {
+    const text = markdownToPlain(lines.join('\n'));
+    if (text) current.text = current.text ? `${current.text}\n${text}` : text;
+    lines = [];
+  };
+
+  for (const line of body.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) fenced = !fenced;
+    // Como en Notion, solo los h1/h2 abren sección; los h3 quedan dentro
+    const heading = !fenced && /^#{1,6}\s/.test(line) ? headings[next++] : undefined;
+    if (heading && heading.depth <= 2) {
+      flush();
+      current = { kind, url: `${url}#${heading.slug}`, title, section: heading.text, text: '' };
+      docs.push(current);
+      continue;
+    }
+    lines.push(line);
+  }
+  flush();
+
+  return docs.filter((d) => d === page || d.text.trim());
+}
+
+export async function buildSearchIndex(): Promise<SearchDocument[]> {
+  const docs: SearchDocument[] = [];
+
+  // La búsqueda es la del sitio en español
+  for (const lesson of await getCollection('lessons', inLocale(DEFAULT_LOCALE))) {
+    const blocks = await getBlocks(lesson.data.notionId);
+    docs.push(...pageDocuments('curso', `/curso/${lesson.id}`, lesson.data.title, lesson.data.description, blocks));
+  }
+
+  for (const post of await getCollection('blog', inLocale(DEFAULT_LOCALE))) {
+    const url = `/blog/${post.id}`;
+    if (post.filePath) {
+      const { headings } = await render(post);
+      docs.push(...markdownDocuments('blog', url, post.data.title, post.data.description, post.body ?? '', headings));
+      continue;
+    }
+    const blocks = post.data.notionId ? await getBlocks(post.data.notionId) : [];
+    docs.push(...pageDocuments('blog', url, post.data.title, post.data.description, blocks));
+  }
+
+  for (const product of await getCollection('herramientas')) {
+    const { data } = product;
+    // Los productos externos no tienen página propia: el resultado lleva a su web
+    const url = data.external ? data.purchaseUrl : `/herramientas/${product.id}`;
+    const text = [
+      data.subtitle,
+      data.description,
+      ...(data.features ?? []),
+      ...(data.valueProps ?? []).map((v) => `${v.title}. ${v.description}`),
+      ...(data.modules ?? []).map((m) => `${m.title}. ${m.desc}`),
+    ];
+    docs.push({ kind: 'herramientas', url, title: data.title, text: text.filter(Boolean).join('\n'), external: data.external || undefined });
+
+    if (data.faq?.length) {
+      docs.push({
+        kind: 'herramientas',
+        url,
+        title: data.title,
+        section: 'Preguntas frecuentes',
+        text: data.faq.map((f) => `${f.question}\n${f.answer}`).join('\n'),
+        external: data.external || undefined,
+      });
+    }
+  }
+
+  return docs;
+}
@@ -0,0 +1,129 @@
+// ---------------------------------------------------------------------------
+// Búsqueda — formato del índice y búsqueda en el navegador
+// ---------------------------------------------------------------------------
+// El índice (/search-index.json) se genera en el build con search-index.ts:
+// un documento por sección (cada heading del TOC) de cada lección, post y
+// herramienta. Este módulo no importa nada del servidor porque lo usa también
+// el buscador de BaseLayout (components/ui/Search.astro).
+// ---------------------------------------------------------------------------
+
+export type SearchKind = 'curso' | 'blog' | 'herramientas';
+
+export interface SearchDocument {
+  kind: SearchKind;
+  /** Ruta de la página, con #anchor si es una sección */
+  url: string;
+  /** Título de la página */
+  title: string;
+  /** Heading de la sección, si el resultado no es la página entera */
+  section?: string;
+  text: string;
+  /** Enlace fuera del sitio (herramientas externas) */
+  external?: boolean;
+}
+
+export interface SearchResult {
+  doc: SearchDocument;
+  score: number;
+  /** Fragmento del texto alrededor de la primera coincidencia */
+  snippet: { before: string; match: string; after: string } | null;
+}
+
+/**
+ * Minúsculas y sin tildes (mismo criterio que getSlug), carácter a carácter
+ * para que cada posición coincida con la del texto original y se pueda
+ * resaltar la coincidencia: "Fórmulas" → "formulas".
+ */
+export function foldText(text: string): string {
+  let out = '';
+  for (const char of text) {
+    const folded = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    out += folded.length === char.length ? folded : char;
+  }
+  return out;
+}
+
+export function tokenize(query: string): string[] {
+  return foldText(query).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+const SNIPPET_RADIUS = 70;
+
+function makeSnippet(text: string, folded: string, term: string): SearchResult['snippet'] {
+  const at = folded.indexOf(term);
+  if (at < 0) return null;
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(text.length, at + term.length + SNIPPET_RADIUS);
+  return {
+    before: (start > 0 ? '…' : '') + text.slice(start, at),
+    match: text.slice(at, at + term.length),
+    after: text.slice(at + term.length, end) + (end < text.length ? '…' : ''),
+  };
+}
+
+/** Principio del texto, cuando la coincidencia está solo en el título. */
+function leadSnippet(text: string): SearchResult['snippet'] {
+  if (!text.trim()) return null;
+  const lead = text.slice(0, SNIPPET_RADIUS * 2);
+  return { before: lead + (text.length > lead.length ? '…' : ''), match: '', after: '' };
+}
+
+/** ¿Empieza `term` una palabra en `folded` (no solo aparece dentro)? */
+function startsWord(folded: string, term: string): boolean {
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'u').test(folded);
+}
+
+export interface PreparedDocument {
+  doc: SearchDocument;
+  title: string;
+  section: string;
+  text: string;
+}
+
+/** Pliega el texto de todos los documentos una vez, al cargar el índice. */
+export function prepareIndex(docs: SearchDocument[]): PreparedDocument[] {
+  return docs.map((doc) => ({
+    doc,
+    title: foldText(doc.title),
+    section: foldText(doc.section ?? ''),
+    text: foldText(doc.text),
+  }));
+}
+
+/**
+ * Documentos que contienen todos los términos de la búsqueda (en el título,
+ * la sección o el texto), mejor puntuados cuanto más arriba aparecen.
+ */
+export function search(index: PreparedDocument[], query: string, limit = 12): SearchResult[] {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  for (const entry of index) {
+    let score = 0;
+    let matchesAll = true;
+    for (const term of terms) {
+      let termScore = 0;
+      if (entry.title.includes(term)) termScore += startsWord(entry.title, term) ? 12 : 6;
+      if (entry.section.includes(term)) termScore += startsWord(entry.section, term) ? 8 : 4;
+      if (entry.text.includes(term)) termScore += startsWord(entry.text, term) ? 2 : 1;
+      if (termScore === 0) {
+        matchesAll = false;
+        break;
+      }
+      score += termScore;
+    }
+    if (!matchesAll) continue;
+
+    // La página entera (sin sección) gana ante sus secciones si empatan
+    if (!entry.doc.section) score += 0.5;
+    const term = terms.find((t) => entry.text.includes(t));
+    results.push({
+      doc: entry.doc,
+      score,
+      snippet: term ? makeSnippet(entry.doc.text, entry.text, term) : leadSnippet(entry.doc.text),
+    });
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,75 @@
+// ---------------------------------------------------------------------------
+// Slug history — every slug a Notion page has been published under
+// ---------------------------------------------------------------------------
+// Slugs fall back to the page title, so renaming a page in Notion changes its
+// URL. The loaders record each page's slugs in `src/data/slug-history.json`,
+// keyed by the stable Notion page id, and src/lib/redirects.ts turns the old
+// ones into redirects. Commit the file so the history survives fresh clones;
+// slugs can also be seeded from a "Slugs anteriores" property in Notion.
+// ---------------------------------------------------------------------------
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { slugify } from './notion';
+
+export const SLUG_HISTORY_FILE = path.join(process.cwd(), 'src', 'data', 'slug-history.json');
+
+/** Notion page id → every slug the page has had, oldest first. */
+type SlugHistory = Record<string, string[]>;
+
+export interface SlugTracker {
+  /** Record the page's current slug and return the ones it had before. */
+  track(pageId: string, slug: string, seed?: string): string[];
+  /** Write the history back if any page got a new slug. */
+  save(): boolean;
+}
+
+function readHistory(): SlugHistory {
+  if (!fs.existsSync(SLUG_HISTORY_FILE)) return {};
+  try {
+    return JSON.parse(fs.readFileSync(SLUG_HISTORY_FILE, 'utf-8')) as SlugHistory;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Slugs from a "Slugs anteriores" value: separated by commas, spaces or new
+ * lines, and written either as bare slugs or as old URLs/paths.
+ */
+export function parseSlugList(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((item) => slugify(item.replace(/\/+$/, '').split('/').pop() ?? ''))
+    .filter(Boolean);
+}
+
+/** Every slug a page has been published under, oldest first. */
+export function getPageSlugs(pageId: string): string[] {
+  return readHistory()[pageId] ?? [];
+}
+
+export function openSlugHistory(): SlugTracker {
+  const history = readHistory();
+  let changed = false;
+
+  return {
+    track(pageId, slug, seed = '') {
+      const known = history[pageId] ?? [];
+      if (!known.includes(slug)) {
+        history[pageId] = [...known, slug];
+        changed = true;
+      }
+      const previous = [...parseSlugList(seed), ...known];
+      return [...new Set(previous)].filter((s) => s !== slug);
+    },
+
+    save() {
+      if (!changed) return false;
+      fs.mkdirSync(path.dirname(SLUG_HISTORY_FILE), { recursive: true });
+      fs.writeFileSync(SLUG_HISTORY_FILE, JSON.stringify(history, null, 2) + '\n');
+      changed = false;
+      return true;
+    },
+  };
+}
@@ -0,0 +1,322 @@
+// ---------------------------------------------------------------------------
+// Datos estructurados (JSON-LD) — curso, lecciones, posts y herramientas
+// ---------------------------------------------------------------------------
+// Todo sale de los datos que ya tienen las colecciones: los layouts pasan
+// estos objetos a BaseLayout (prop `structuredData`, más `breadcrumb` para el
+// BreadcrumbList), que los pinta y los valida con `checkStructuredData`.
+// Los problemas van al informe de contenido del build (content-issues.ts):
+// falta una propiedad obligatoria para schema.org/Google → error.
+// ---------------------------------------------------------------------------
+
+import type { CourseModule } from './course-modules';
+import { DEFAULT_LOCALE, localizePath, t, type Locale } from './i18n';
+import type { Crumb } from './notion-render';
+import { reportContentIssue } from './content-issues';
+import { parsePrice } from './herramientas';
+
+export type JsonLd = Record<string, unknown>;
+
+export const SITE_URL = 'https://aprendenotion.com';
+
+const AUTHOR = { '@type': 'Person', name: 'Elena Madrigal', url: 'https://elenamadrigal.com' };
+const PUBLISHER = { '@type': 'Organization', name: 'Aprende Notion', url: SITE_URL };
+
+/** El curso se define una vez (en /curso, /en/curso…) y el resto lo referencia por @id. */
+const courseId = (locale: Locale) => `${SITE_URL}${localizePath('/curso', locale)}#curso`;
+
+/**
+ * JSON para el contenido de un <script>: `<` va como `\u003c`, así un
+ * `</script>` o `<!--` en un texto de Notion no cierra el elemento antes de
+ * tiempo. U+2028/U+2029 también van escapados (no son válidos en JS antiguo).
+ */
+export function jsonForScript(data: unknown): string {
+  return JSON.stringify(data)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+function absolute(path: string): string {
+  return new URL(path, SITE_URL).href;
+}
+
+// ---------------------------------------------------------------------------
+// Builders
+// ---------------------------------------------------------------------------
+
+/** BreadcrumbList con las mismas migas que Breadcrumb.astro. */
+export function breadcrumbJsonLd(items: Crumb[], pageUrl: string): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'BreadcrumbList',
+    itemListElement: items.map((crumb, i) => ({
+      '@type': 'ListItem',
+      position: i + 1,
+      name: crumb.label,
+      item: crumb.href ? absolute(crumb.href) : pageUrl,
+    })),
+  };
+}
+
+/** El curso entero, con un LearningResource por módulo. */
+export function courseJsonLd(modules: CourseModule[], description: string, locale: Locale = DEFAULT_LOCALE): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Course',
+    '@id': courseId(locale),
+    name: t(locale, 'course.name'),
+    description,
+    url: absolute(localizePath('/curso', locale)),
+    inLanguage: locale,
+    isAccessibleForFree: true,
+    provider: PUBLISHER,
+    author: AUTHOR,
+    offers: { '@type': 'Offer', price: '0', priceCurrency: 'EUR', category: 'Free' },
+    hasCourseInstance: { '@type': 'CourseInstance', courseMode: 'Online', inLanguage: locale },
+    hasPart: modules.map((mod, i) => ({
+      '@type': 'LearningResource',
+      learningResourceType: 'Módulo',
+      name: mod.title,
+      description: mod.description || undefined,
+      url: absolute(mod.href),
+      position: i + 1,
+    })),
+  };
+}
+
+/** Página de un módulo: sus lecciones, en orden. */
+export function moduleJsonLd(
+  mod: CourseModule,
+  position: number,
+  lessons: { href: string; entry: { data: { title: string } } }[],
+  locale: Locale = DEFAULT_LOCALE,
+): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'LearningResource',
+    learningResourceType: 'Módulo',
+    name: mod.title,
+    description: mod.description || undefined,
+    url: absolute(mod.href),
+    position,
+    inLanguage: mod.translated ? locale : DEFAULT_LOCALE,
+    isAccessibleForFree: true,
+    isPartOf: { '@id': courseId(locale) },
+    hasPart: lessons.map((lesson, i) => ({
+      '@type': 'LearningResource',
+      learningResourceType: 'Lección',
+      name: lesson.entry.data.title,
+      url: absolute(lesson.href),
+      position: i + 1,
+    })),
+  };
+}
+
+/** Una lección (en `href`, dentro del curso en `locale`), con su posición dentro del módulo. */
+export function lessonJsonLd(
+  lesson: {
+    data: { title: string; description: string; locale: Locale; coverImage?: string; createdAt?: string; updatedDate?: string };
+  },
+  href: string,
+  mod: CourseModule | null,
+  position: number,
+  locale: Locale = DEFAULT_LOCALE,
+): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'LearningResource',
+    learningResourceType: 'Lección',
+    name: lesson.data.title,
+    description: lesson.data.description || undefined,
+    url: absolute(href),
+    image: lesson.data.coverImage ? absolute(lesson.data.coverImage) : undefined,
+    dateCreated: lesson.data.createdAt,
+    dateModified: lesson.data.updatedDate,
+    position,
+    // Una lección sin traducir va en español
+    inLanguage: lesson.data.locale,
+    isAccessibleForFree: true,
+    author: AUTHOR,
+    // Un módulo de una sola lección es la propia lección: cuelga del curso
+    isPartOf: mod && mod.lessonSlugs.length > 1
+      ? { '@type': 'LearningResource', name: mod.title, url: absolute(mod.href), isPartOf: { '@id': courseId(locale) } }
+      : { '@id': courseId(locale) },
+  };
+}
+
+export function blogPostingJsonLd(
+  post: {
+    title: string;
+    description: string;
+    publishDate: string;
+    updatedDate?: string;
+    category: string;
+    coverImage?: string;
+    coverWidth?: number;
+    coverHeight?: number;
+    locale?: Locale;
+  },
+  pageUrl: string,
+): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'BlogPosting',
+    headline: post.title,
+    description: post.description,
+    datePublished: post.publishDate,
+    dateModified: post.updatedDate,
+    articleSection: post.category,
+    image: post.coverImage
+      ? { '@type': 'ImageObject', url: absolute(post.coverImage), width: post.coverWidth, height: post.coverHeight }
+      : undefined,
+    author: AUTHOR,
+    publisher: PUBLISHER,
+    mainEntityOfPage: { '@type': 'WebPage', '@id': pageUrl },
+    inLanguage: post.locale ?? DEFAULT_LOCALE,
+  };
+}
+
+export function productJsonLd(
+  product: {
+    title: string;
+    description: string;
+    priceNumeric: number;
+    image: string;
+    purchaseUrl: string;
+    pricing?: { cards: { label: string; price: string; url: string; internal: boolean }[] };
+    testimonials?: { quote: string; author: string }[];
+  },
+  pageUrl: string,
+): JsonLd {
+  // Una oferta por tarjeta de precios; sin tarjetas, el precio del producto.
+  // Las tarjetas internas enlazan a otra herramienta (packs): no son ofertas de esta
+  const cards = (product.pricing?.cards ?? []).filter((card) => !card.internal);
+  const offers = cards.length
+    ? cards.map((card) => ({
+        '@type': 'Offer',
+        name: card.label,
+        price: String(parsePrice(card.price) ?? product.priceNumeric),
+        priceCurrency: 'EUR',
+        availability: 'https://schema.org/InStock',
+        url: absolute(card.url),
+      }))
+    : {
+        '@type': 'Offer',
+        price: String(product.priceNumeric),
+        priceCurrency: 'EUR',
+        availability: 'https://schema.org/InStock',
+        url: absolute(product.purchaseUrl),
+      };
+
+  const data: JsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    name: product.title,
+    description: product.description,
+    image: absolute(product.image),
+    url: pageUrl,
+    offers,
+    brand: { '@type': 'Brand', name: 'Aprende Notion' },
+  };
+
+  const { testimonials } = product;
+  if (testimonials && testimonials.length >= 2) {
+    data.aggregateRating = {
+      '@type': 'AggregateRating',
+      ratingValue: '5',
+      reviewCount: String(testimonials.length),
+    };
+  } else if (testimonials && testimonials.length === 1) {
+    data.review = {
+      '@type': 'Review',
+      reviewBody: testimonials[0].quote,
+      author: { '@type': 'Person', name: testimonials[0].author },
+    };
+  }
+  return data;
+}
+
+export function faqJsonLd(faq: { question: string; answer: string }[]): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'FAQPage',
+    mainEntity: faq.map((item) => ({
+      '@type': 'Question',
+      name: item.question,
+      acceptedAnswer: { '@type': 'Answer', text: item.answer },
+    })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Validación
+// ---------------------------------------------------------------------------
+
+/**
+ * Propiedades obligatorias por tipo (las que schema.org/Google exigen para
+ * mostrar el resultado enriquecido). Los objetos que solo llevan @id son
+ * referencias y no se comprueban.
+ */
+const REQUIRED: Record<string, string[]> = {
+  Course: ['name', 'description', 'provider'],
+  LearningResource: ['name', 'url'],
+  BlogPosting: ['headline', 'datePublished', 'author'],
+  Product: ['name', 'offers'],
+  Offer: ['price', 'priceCurrency'],
+  AggregateRating: ['ratingValue', 'reviewCount'],
+  Review: ['reviewBody', 'author'],
+  FAQPage: ['mainEntity'],
+  Question: ['name', 'acceptedAnswer'],
+  Answer: ['text'],
+  BreadcrumbList: ['itemListElement'],
+  ListItem: ['position', 'name', 'item'],
+  VideoObject: ['name', 'thumbnailUrl', 'uploadDate'],
+  Clip: ['name', 'startOffset', 'url'],
+  Person: ['name'],
+  Organization: ['name'],
+  ImageObject: ['url'],
+};
+
+const URL_KEYS = new Set(['url', 'item', 'image', 'thumbnailUrl', 'contentUrl', 'embedUrl', '@id']);
+const DATE_KEYS = new Set(['datePublished', 'dateModified', 'dateCreated', 'uploadDate']);
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/** Problemas de un objeto JSON-LD (y de los que lleva dentro). */
+export function validateJsonLd(data: unknown, path = ''): string[] {
+  if (Array.isArray(data)) return data.flatMap((item, i) => validateJsonLd(item, `${path}[${i}]`));
+  if (!data || typeof data !== 'object') return [];
+
+  const obj = data as JsonLd;
+  const type = typeof obj['@type'] === 'string' ? (obj['@type'] as string) : null;
+  const at = path || type || 'JSON-LD';
+  const problems: string[] = [];
+
+  if (type) {
+    for (const key of REQUIRED[type] ?? []) {
+      if (isMissing(obj[key])) problems.push(`${at}: missing "${key}"`);
+    }
+  }
+
+  for (const [key, value] of Object.entries(obj)) {
+    if (typeof value === 'string' && URL_KEYS.has(key) && !/^https?:\/\//.test(value)) {
+      problems.push(`${at}.${key}: "${value}" is not an absolute URL`);
+    }
+    if (typeof value === 'string' && DATE_KEYS.has(key) && Number.isNaN(Date.parse(value))) {
+      problems.push(`${at}.${key}: "${value}" is not a date`);
+    }
+    if (value && typeof value === 'object') {
+      problems.push(...validateJsonLd(value, `${at}.${key}`));
+    }
+  }
+  return problems;
+}
+
+/** Valida el JSON-LD de una página y anota los problemas en el informe del build. */
+export function checkStructuredData(pagePath: string, items: JsonLd[]) {
+  for (const problem of items.flatMap((item) => validateJsonLd(item))) {
+    reportContentIssue({ level: 'error', collection: 'structured-data', id: pagePath, message: problem });
+  }
+}
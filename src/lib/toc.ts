@@ -1,12 +1,15 @@
 // ---------------------------------------------------------------------------
 // Table of Contents — extracción desde bloques de Notion
 // ---------------------------------------------------------------------------
-// Genera el mismo ID de anchor que HeadingBlock.astro para que los links
-// del TOC apunten a los headings reales del contenido renderizado.
+// Los ids de anchor de los headings salen de un único sitio, `getHeadingIds`:
+// recorre la página entera (también columnas, toggles y bloques sincronizados)
+// y da a cada heading un slug único en la página ("tareas", "tareas-2"…).
+// HeadingBlock.astro, extractToc y el índice de búsqueda lo usan, así que
+// los links del TOC siempre apuntan al heading que toca.
 // ---------------------------------------------------------------------------
 
 import type { BlockObjectResponse } from '@notionhq/client/build/src/api-endpoints';
-import { richTextToPlain } from './notion';
+import { richTextToPlain, slugify } from './notion';
 
 export interface TocEntry {
   id: string;
@@ -14,41 +17,141 @@ export interface TocEntry {
   level: 1 | 2 | 3;
 }
 
-/** Convierte texto en slug URL-safe (idéntico a HeadingBlock.astro). */
-function slugify(text: string): string {
-  return text
-    .toLowerCase()
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '')
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/(^-|-$)/g, '');
+export interface TocOptions {
+  /** Nivel más profundo que entra en el TOC: 2 = heading_2 (h3), 3 = heading_3 (h4) */
+  maxLevel?: 1 | 2 | 3;
 }
 
+const HEADING_LEVELS: Record<string, 1 | 2 | 3> = { heading_1: 1, heading_2: 2, heading_3: 3 };
+
+// ---------------------------------------------------------------------------
+// Slugger
+// ---------------------------------------------------------------------------
+
 /**
- * Extrae entradas de TOC de un array de bloques de Notion.
- * Solo incluye heading_1 (→ h2) y heading_2 (→ h3) para mantener
- * el TOC manejable. heading_3 (→ h4) se omite.
+ * Slugs únicos dentro de una página: el segundo "Tareas" es "tareas-2".
+ * `reserve` marca como usados ids que ya existen (headings escritos a mano).
  */
-export function extractToc(blocks: BlockObjectResponse[]): TocEntry[] {
-  const entries: TocEntry[] = [];
+export function createSlugger() {
+  const used = new Set<string>();
+  return {
+    slug(text: string): string {
+      const base = slugify(text) || 'seccion';
+      let id = base;
+      for (let n = 2; used.has(id); n++) id = `${base}-${n}`;
+      used.add(id);
+      return id;
+    },
+    reserve(id: string) {
+      used.add(id);
+    },
+  };
+}
 
-  for (const block of blocks) {
-    const type = (block as any).type;
+// ---------------------------------------------------------------------------
+// Headings de una página de Notion
+// ---------------------------------------------------------------------------
 
-    if (type === 'heading_1' || type === 'heading_2') {
-      const heading = (block as any)[type];
-      if (!heading?.rich_text) continue;
+function headingText(block: BlockObjectResponse): string {
+  return richTextToPlain((block as any)[block.type]?.rich_text ?? []);
+}
 
-      const text = richTextToPlain(heading.rich_text);
-      if (!text.trim()) continue;
+/** Recorre el árbol en orden de lectura, hijos incluidos. */
+function walk(blocks: BlockObjectResponse[], visit: (block: BlockObjectResponse) => void) {
+  for (const block of blocks) {
+    visit(block);
+    const children = (block as any).children as BlockObjectResponse[] | undefined;
+    if (children?.length) walk(children, visit);
+  }
+}
 
-      entries.push({
-        id: slugify(text),
-        text,
-        level: type === 'heading_1' ? 1 : 2,
-      });
-    }
+const _ids = new WeakMap<BlockObjectResponse[], Map<string, string>>();
+
+/** Id de anchor de cada heading de la página (block id → id), calculado una vez. */
+export function getHeadingIds(blocks: BlockObjectResponse[]): Map<string, string> {
+  let ids = _ids.get(blocks);
+  if (!ids) {
+    const slugger = createSlugger();
+    const map = new Map<string, string>();
+    walk(blocks, (block) => {
+      if (HEADING_LEVELS[block.type] && !map.has(block.id)) map.set(block.id, slugger.slug(headingText(block)));
+    });
+    _ids.set(blocks, map);
+    ids = map;
   }
+  return ids;
+}
+
+/**
+ * Id de un heading dentro de su página. Sin página (un bloque renderizado
+ * suelto) no hay con qué desduplicar y se usa el slug del texto.
+ */
+export function getHeadingId(block: BlockObjectResponse, pageBlocks?: BlockObjectResponse[]): string {
+  return (pageBlocks && getHeadingIds(pageBlocks).get(block.id)) || slugify(headingText(block)) || 'seccion';
+}
+
+/**
+ * Entradas del TOC de una página, incluidos los headings dentro de columnas
+ * o toggles. Por defecto heading_1 (→ h2) y heading_2 (→ h3); con
+ * `maxLevel: 3` también heading_3 (→ h4).
+ */
+export function extractToc(blocks: BlockObjectResponse[], options: TocOptions = {}): TocEntry[] {
+  const maxLevel = options.maxLevel ?? 2;
+  const ids = getHeadingIds(blocks);
+  const entries: TocEntry[] = [];
+
+  walk(blocks, (block) => {
+    const level = HEADING_LEVELS[block.type];
+    if (!level || level > maxLevel) return;
+    const text = headingText(block);
+    if (!text.trim()) return;
+    entries.push({ id: ids.get(block.id)!, text, level });
+  });
 
   return entries;
 }
+
+// ---------------------------------------------------------------------------
+// Headings de HTML (páginas escritas a mano con LessonLayout)
+// ---------------------------------------------------------------------------
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&#x27;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+const HTML_HEADING = /<h([234])(\s[^>]*)?>([\s\S]*?)<\/h\1>/g;
+
+/**
+ * TOC de un fragmento de HTML (h2 → nivel 1, h3 → 2, h4 → 3). Los headings
+ * sin id reciben uno del mismo slugger; devuelve también el HTML con ellos.
+ */
+export function extractHtmlToc(html: string, options: TocOptions = {}): { html: string; entries: TocEntry[] } {
+  const maxLevel = options.maxLevel ?? 2;
+  const slugger = createSlugger();
+  for (const match of html.matchAll(HTML_HEADING)) {
+    const id = match[2]?.match(/\sid="([^"]*)"/)?.[1];
+    if (id) slugger.reserve(id);
+  }
+
+  const entries: TocEntry[] = [];
+  const withIds = html.replace(HTML_HEADING, (whole, tag: string, attrs = '', inner: string) => {
+    const text = decodeEntities(inner.replace(/<[^>]*>/g, '')).trim();
+    let id = attrs.match(/\sid="([^"]*)"/)?.[1];
+    let out = whole;
+    if (!id) {
+      id = slugger.slug(text);
+      out = `<h${tag} id="${id}"${attrs}>${inner}</h${tag}>`;
+    }
+    const level = (Number(tag) - 1) as 1 | 2 | 3;
+    if (text && level <= maxLevel) entries.push({ id, text, level });
+    return out;
+  });
+
+  return { html: withIds, entries };
+}
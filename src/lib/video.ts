@@ -0,0 +1,367 @@
+// ---------------------------------------------------------------------------
+// Videos de las lecciones
+// ---------------------------------------------------------------------------
+// Los videos viven en Notion: bloques `video`/`embed` dentro de la lección o
+// la propiedad "Video" de la lección (que se muestra arriba del todo). Aquí se
+// reconocen las URLs de YouTube, Vimeo y Loom, se sacan los capítulos
+// ("0:00 Intro" en líneas del pie de video o de la propiedad "Capítulos") y se
+// genera el JSON-LD VideoObject de la página.
+// ---------------------------------------------------------------------------
+
+import type { BlockObjectResponse } from '@notionhq/client/build/src/api-endpoints';
+import { richTextToPlain } from './notion';
+import { reportContentIssue } from './content-issues';
+
+export type VideoProvider = 'youtube' | 'vimeo' | 'loom';
+
+export interface VideoSource {
+  provider: VideoProvider;
+  id: string;
+  /** URL pública del video (para enlaces y JSON-LD) */
+  url: string;
+  /** URL del reproductor para el iframe */
+  embedUrl: string;
+  thumbnailUrl?: string;
+  /** Segundo de inicio si la URL lo traía (?t=90) */
+  start?: number;
+}
+
+export interface VideoChapter {
+  /** Inicio en segundos */
+  start: number;
+  title: string;
+}
+
+export interface LessonVideo {
+  source: VideoSource;
+  /** Pie del video sin las líneas de capítulos */
+  caption: string;
+  chapters: VideoChapter[];
+}
+
+// ---------------------------------------------------------------------------
+// URLs
+// ---------------------------------------------------------------------------
+
+/** "90", "90s", "1m30s", "1h2m3s" → segundos */
+function parseStartParam(value: string | null): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value)) return Number(value);
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!match || !match[0]) return undefined;
+  return Number(match[1] ?? 0) * 3600 + Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0);
+}
+
+function youtube(id: string, start?: number): VideoSource {
+  return {
+    provider: 'youtube',
+    id,
+    url: `https://www.youtube.com/watch?v=${id}`,
+    embedUrl: `https://www.youtube.com/embed/${id}`,
+    thumbnailUrl: `https://i.ytimg.com/vi/${id}/hqdefault.jpg`,
+    start,
+  };
+}
+
+/**
+ * Reconoce un video de YouTube, Vimeo o Loom. Acepta, entre otras:
+ *   youtube.com/watch?v=<id>   youtu.be/<id>   youtube.com/embed|shorts|live/<id>
+ *   vimeo.com/<id>   vimeo.com/<id>/<hash>   player.vimeo.com/video/<id>?h=<hash>
+ *   loom.com/share/<id>   loom.com/embed/<id>
+ * Devuelve null para cualquier otra URL.
+ */
+export function parseVideoUrl(raw: string): VideoSource | null {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return null;
+  }
+  const host = url.hostname.replace(/^(www|m)\./, '');
+  const parts = url.pathname.split('/').filter(Boolean);
+  const start = parseStartParam(url.searchParams.get('t') ?? url.searchParams.get('start'));
+
+  if (host === 'youtu.be' && parts[0]) return youtube(parts[0], start);
+  if (host === 'youtube.com' || host === 'youtube-nocookie.com') {
+    const id = url.searchParams.get('v') ?? (['embed', 'shorts', 'live', 'v'].includes(parts[0]) ? parts[1] : null);
+    if (id && /^[\w-]{11}$/.test(id)) return youtube(id, start);
+    return null;
+  }
+
+  if (host === 'vimeo.com' || host === 'player.vimeo.com') {
+    const idIndex = parts.findIndex((p) => /^\d+$/.test(p));
+    if (idIndex < 0) return null;
+    const id = parts[idIndex];
+    // Videos ocultos: el hash va en la ruta (vimeo.com/<id>/<hash>) o en ?h=
+    const hash = url.searchParams.get('h') ?? (host === 'vimeo.com' ? parts[idIndex + 1] : undefined);
+    const timeHash = parseStartParam(url.hash.match(/t=([\dhms]+)/)?.[1] ?? null);
+    return {
+      provider: 'vimeo',
+      id,
+      url: `https://vimeo.com/${id}${hash ? `/${hash}` : ''}`,
+      embedUrl: `https://player.vimeo.com/video/${id}${hash ? `?h=${hash}` : ''}`,
+      start: start ?? timeHash,
+    };
+  }
+
+  if (host === 'loom.com' && (parts[0] === 'share' || parts[0] === 'embed') && parts[1]) {
+    const id = parts[1];
+    return {
+      provider: 'loom',
+      id,
+      url: `https://www.loom.com/share/${id}`,
+      embedUrl: `https://www.loom.com/embed/${id}`,
+      thumbnailUrl: `https://cdn.loom.com/sessions/thumbnails/${id}-with-play.gif`,
+      start,
+    };
+  }
+
+  return null;
+}
+
+/** URL del reproductor empezando en un segundo concreto. */
+export function embedUrlAt(source: VideoSource, seconds: number | undefined, autoplay = false): string {
+  if (!seconds && !autoplay) return source.embedUrl;
+  const url = new URL(source.embedUrl);
+  if (autoplay) url.searchParams.set('autoplay', '1');
+  if (!seconds) return url.toString();
+  if (source.provider === 'vimeo') return `${url.toString()}#t=${seconds}s`;
+  url.searchParams.set(source.provider === 'youtube' ? 'start' : 't', String(seconds));
+  return url.toString();
+}
+
+/** URL pública del video en un segundo concreto (enlace de cada capítulo). */
+export function watchUrlAt(source: VideoSource, seconds: number): string {
+  if (source.provider === 'vimeo') return `${source.url}#t=${seconds}s`;
+  const url = new URL(source.url);
+  url.searchParams.set('t', source.provider === 'youtube' ? `${seconds}s` : String(seconds));
+  return url.toString();
+}
+
+// ---------------------------------------------------------------------------
+// Capítulos
+// ---------------------------------------------------------------------------
+
+const CHAPTER_LINE = /^\s*(?:[-•*]\s*)?\(?((?:\d{1,2}:)?\d{1,2}:\d{2})\)?\s*(?:[-–—:|]\s*)?(.+?)\s*$/;
+
+function timestampToSeconds(stamp: string): number {
+  return stamp.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+/** 75 → "1:15", 3725 → "1:02:05" */
+export function formatTimestamp(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+/**
+ * Separa los capítulos ("0:00 Intro", "1:02:03 - Cierre"…, uno por línea) del
+ * resto del texto. Como en YouTube, hacen falta al menos dos para que cuenten.
+ */
+export function parseChapters(text: string): { chapters: VideoChapter[]; rest: string } {
+  const chapters: VideoChapter[] = [];
+  const rest: string[] = [];
+  for (const line of text.split('\n')) {
+    const match = line.match(CHAPTER_LINE);
+    if (match) chapters.push({ start: timestampToSeconds(match[1]), title: match[2] });
+    else rest.push(line);
+  }
+  if (chapters.length < 2) return { chapters: [], rest: text.trim() };
+  chapters.sort((a, b) => a.start - b.start);
+  return { chapters, rest: rest.join('\n').trim() };
+}
+
+// ---------------------------------------------------------------------------
+// Videos de una página
+// ---------------------------------------------------------------------------
+
+/** Video de un bloque `video`/`embed`, o null si no es de un proveedor conocido. */
+export function getBlockVideo(block: BlockObjectResponse): LessonVideo | null {
+  if (block.type !== 'video' && block.type !== 'embed') return null;
+  const data = (block as any)[block.type];
+  const url = block.type === 'embed' ? data.url : data.type === 'external' ? data.external.url : '';
+  const source = url ? parseVideoUrl(url) : null;
+  if (!source) return null;
+  const { chapters, rest } = parseChapters(data.caption?.length > 0 ? richTextToPlain(data.caption) : '');
+  return { source, caption: rest, chapters };
+}
+
+/** Video de la propiedad "Video" de una lección (ya validado por el loader). */
+export function getPropertyVideo(video: { url: string; chapters: VideoChapter[] } | undefined): LessonVideo | null {
+  const source = video ? parseVideoUrl(video.url) : null;
+  return source ? { source, caption: '', chapters: video!.chapters } : null;
+}
+
+/** Todos los videos reconocibles de un árbol de bloques, en orden. */
+export function extractVideos(blocks: BlockObjectResponse[]): LessonVideo[] {
+  const videos: LessonVideo[] = [];
+  for (const block of blocks) {
+    const video = getBlockVideo(block);
+    if (video) videos.push(video);
+    const children = (block as any).children as BlockObjectResponse[] | undefined;
+    if (children?.length) videos.push(...extractVideos(children));
+  }
+  return videos;
+}
+
+// ---------------------------------------------------------------------------
+// Videos heredados
+// ---------------------------------------------------------------------------
+// Los videos de las páginas estáticas originales, por slug de lección (o de
+// módulo). 'top' va al principio; si no, el video va detrás del encabezado
+// con ese texto, esté donde esté (también dentro de toggles o columnas). Solo
+// se usan en páginas sin ningún video en Notion, y un encabezado que ya no
+// existe es un error del build: el video no desaparece sin avisar. Cuando
+// todas las lecciones tengan sus videos en Notion, se puede borrar este mapa.
+
+const LEGACY_LESSON_VIDEOS: Record<string, { id: string; position: 'top' | string }[]> = {
+  'introduccion-espacio-trabajo': [
+    { id: 'jjXOaNAL8gw', position: 'top' },
+  ],
+  'paginas-bloques': [
+    { id: 'QnnKfqFNkTY', position: 'top' },
+    { id: 'LM4XGuMEpRA', position: 'Dándole estilo al texto' },
+    { id: 'ATYQVCoxxf4', position: 'Bloques básicos' },
+    { id: 'jn0LMMD3y68', position: 'Los bloques son fluidos' },
+    { id: 'VVz6AwlX9Ug', position: 'Páginas y subpáginas' },
+  ],
+  'introduccion-bases-datos': [
+    { id: 'FCn92JBS3Dk', position: 'top' },
+  ],
+  'filtros-ordenacion': [
+    { id: 'NtDPmBjCxR8', position: 'top' },
+  ],
+  'vistas-bases-datos': [
+    { id: '4o6mJNhXuMk', position: 'top' },
+  ],
+  'templates': [
+    { id: 'a3HjQhB0UVI', position: 'top' },
+  ],
+  'nuevas-bases-de-datos': [
+    { id: 'e_rd_MWQ-6s', position: 'top' },
+  ],
+  'relations': [
+    { id: 'FBCc7EUTKik', position: 'top' },
+    { id: 'PmPDB5BnnOE', position: 'Las páginas relacionadas' },
+  ],
+  'rollups': [
+    { id: 'e6Re1I0p46I', position: 'top' },
+  ],
+  'introduccion-formulas': [
+    { id: '6FLHs29zsUM', position: 'top' },
+  ],
+  'formulas-avanzadas': [
+    { id: 'kx8Ciyu7jzk', position: 'top' },
+  ],
+  'barras-de-progreso-notion': [
+    { id: 'gNcAJhuLrZU', position: 'top' },
+  ],
+};
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim();
+}
+
+/** Bloque `video` como los de la API, para que lo pinte VideoBlock. */
+function legacyVideoBlock(id: string): BlockObjectResponse {
+  return {
+    object: 'block',
+    id: `legacy-video-${id}`,
+    type: 'video',
+    has_children: false,
+    video: { type: 'external', external: { url: `https://www.youtube.com/watch?v=${id}` }, caption: [] },
+  } as unknown as BlockObjectResponse;
+}
+
+const HEADING_TYPES = ['heading_1', 'heading_2', 'heading_3'];
+
+/**
+ * Copia del árbol con los videos detrás de sus encabezados; apunta en
+ * `matched` las posiciones encontradas. No toca los bloques originales: el
+ * árbol de getBlocks puede estar en la caché.
+ */
+function insertAfterHeadings(
+  blocks: BlockObjectResponse[],
+  legacy: { id: string; position: string }[],
+  matched: Set<string>,
+): BlockObjectResponse[] {
+  const out: BlockObjectResponse[] = [];
+  for (const block of blocks) {
+    const children = (block as any).children as BlockObjectResponse[] | undefined;
+    out.push(children?.length ? Object.assign({}, block, { children: insertAfterHeadings(children, legacy, matched) }) : block);
+    if (!HEADING_TYPES.includes(block.type)) continue;
+
+    const heading = normalizeText(richTextToPlain((block as any)[block.type].rich_text));
+    for (const v of legacy) {
+      if (normalizeText(v.position) !== heading) continue;
+      out.push(legacyVideoBlock(v.id));
+      matched.add(v.position);
+    }
+  }
+  return out;
+}
+
+/**
+ * Los bloques de la página con sus videos heredados metidos en su sitio, si
+ * la página aún no tiene ninguno en Notion (ni bloques ni propiedad "Video").
+ * Cada posición sin encabezado se informa como error del contenido.
+ */
+export function withLegacyVideos(
+  slug: string,
+  blocks: BlockObjectResponse[],
+  hasNotionVideo: boolean,
+): BlockObjectResponse[] {
+  const legacy = LEGACY_LESSON_VIDEOS[slug];
+  if (!legacy || hasNotionVideo) return blocks;
+
+  const top = legacy.filter((v) => v.position === 'top').map((v) => legacyVideoBlock(v.id));
+  const matched = new Set<string>();
+  const out = [...top, ...insertAfterHeadings(blocks, legacy.filter((v) => v.position !== 'top'), matched)];
+
+  for (const v of legacy) {
+    if (v.position === 'top' || matched.has(v.position)) continue;
+    reportContentIssue({
+      level: 'error',
+      collection: 'lessons',
+      id: slug,
+      message:
+        `No heading "${v.position}" for the video https://www.youtube.com/watch?v=${v.id}: ` +
+        'add the video to the lesson in Notion (or fix LEGACY_LESSON_VIDEOS in src/lib/video.ts)',
+    });
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// JSON-LD
+// ---------------------------------------------------------------------------
+
+/** VideoObject de schema.org, con los capítulos como Clip ("momentos clave"). */
+export function videoJsonLd(
+  video: LessonVideo,
+  page: { title: string; description: string; image?: string; uploadDate?: string },
+) {
+  const { source, chapters } = video;
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'VideoObject',
+    name: video.caption.split('\n')[0] || page.title,
+    description: page.description || page.title,
+    thumbnailUrl: source.thumbnailUrl ?? page.image,
+    uploadDate: page.uploadDate,
+    contentUrl: source.url,
+    embedUrl: source.embedUrl,
+    inLanguage: 'es',
+    hasPart: chapters.length
+      ? chapters.map((chapter, i) => ({
+          '@type': 'Clip',
+          name: chapter.title,
+          startOffset: chapter.start,
+          endOffset: chapters[i + 1]?.start,
+          url: watchUrlAt(source, chapter.start),
+        }))
+      : undefined,
+  };
+}
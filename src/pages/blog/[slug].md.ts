@@ -0,0 +1,14 @@
+import type { APIRoute } from 'astro';
+import { getBlogDocuments, toMarkdownFile, type MarkdownDocument } from '../../lib/markdown-export';
+
+// Versión Markdown de cada post del blog (ver src/lib/markdown-export.ts)
+export async function getStaticPaths() {
+  const docs = await getBlogDocuments(new URL(import.meta.env.SITE));
+  return docs.map((doc) => ({ params: { slug: doc.id }, props: { doc } }));
+}
+
+export const GET: APIRoute = ({ props }) => {
+  return new Response(toMarkdownFile(props.doc as MarkdownDocument), {
+    headers: { 'Content-Type': 'text/markdown; charset=utf-8' },
+  });
+};
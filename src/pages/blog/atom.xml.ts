@@ -0,0 +1,10 @@
+import type { APIRoute } from 'astro';
+import { getBlogFeed, toAtom } from '../../lib/feeds';
+
+// Feed Atom del blog (ver src/lib/feeds.ts)
+export const GET: APIRoute = async ({ site }) => {
+  const feed = await getBlogFeed(site!);
+  return new Response(toAtom(feed), {
+    headers: { 'Content-Type': 'application/atom+xml; charset=utf-8' },
+  });
+};
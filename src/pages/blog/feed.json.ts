@@ -0,0 +1,10 @@
+import type { APIRoute } from 'astro';
+import { getBlogFeed, toJsonFeed } from '../../lib/feeds';
+
+// JSON Feed del blog (ver src/lib/feeds.ts)
+export const GET: APIRoute = async ({ site }) => {
+  const feed = await getBlogFeed(site!);
+  return new Response(toJsonFeed(feed), {
+    headers: { 'Content-Type': 'application/feed+json; charset=utf-8' },
+  });
+};
@@ -0,0 +1,10 @@
+import type { APIRoute } from 'astro';
+import { getBlogFeed, toRss } from '../../lib/feeds';
+
+// Feed RSS 2.0 del blog (ver src/lib/feeds.ts)
+export const GET: APIRoute = async ({ site }) => {
+  const feed = await getBlogFeed(site!);
+  return new Response(toRss(feed), {
+    headers: { 'Content-Type': 'application/rss+xml; charset=utf-8' },
+  });
+};
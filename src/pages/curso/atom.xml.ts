@@ -0,0 +1,10 @@
+import type { APIRoute } from 'astro';
+import { getCourseFeed, toAtom } from '../../lib/feeds';
+
+// Lecciones nuevas del curso en Atom (ver src/lib/feeds.ts)
+export const GET: APIRoute = async ({ site }) => {
+  const feed = await getCourseFeed(site!);
+  return new Response(toAtom(feed), {
+    headers: { 'Content-Type': 'application/atom+xml; charset=utf-8' },
+  });
+};
@@ -0,0 +1,10 @@
+import type { APIRoute } from 'astro';
+import { getCourseFeed, toJsonFeed } from '../../lib/feeds';
+
+// Lecciones nuevas del curso en JSON Feed (ver src/lib/feeds.ts)
+export const GET: APIRoute = async ({ site }) => {
+  const feed = await getCourseFeed(site!);
+  return new Response(toJsonFeed(feed), {
+    headers: { 'Content-Type': 'application/feed+json; charset=utf-8' },
+  });
+};
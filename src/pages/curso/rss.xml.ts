@@ -0,0 +1,10 @@
+import type { APIRoute } from 'astro';
+import { getCourseFeed, toRss } from '../../lib/feeds';
+
+// Lecciones nuevas del curso en RSS 2.0 (ver src/lib/feeds.ts)
+export const GET: APIRoute = async ({ site }) => {
+  const feed = await getCourseFeed(site!);
+  return new Response(toRss(feed), {
+    headers: { 'Content-Type': 'application/rss+xml; charset=utf-8' },
+  });
+};
@@ -0,0 +1,12 @@
+import type { APIRoute } from 'astro';
+import { getLessonDocuments } from '../lib/markdown-export';
+
+// El curso entero en texto plano (Markdown), lección a lección y en orden
+export const GET: APIRoute = async ({ site }) => {
+  const lessons = await getLessonDocuments(site!);
+  const sections = lessons.map((doc) =>
+    [`# ${doc.title}`, '', `URL: ${new URL(doc.url, site).href}`, '', doc.description, '', doc.body].join('\n').trim(),
+  );
+  const text = `# Curso de Notion — Aprende Notion\n\n${sections.join('\n\n---\n\n')}\n`;
+  return new Response(text, { headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+};
@@ -0,0 +1,30 @@
+import type { APIRoute } from 'astro';
+import { getBlogDocuments, getLessonDocuments, type MarkdownDocument } from '../lib/markdown-export';
+
+// Índice del sitio para LLMs (https://llmstxt.org): enlaza la versión
+// Markdown de cada lección y post. El curso entero va en /llms-full.txt.
+export const GET: APIRoute = async ({ site }) => {
+  const lessons = await getLessonDocuments(site!);
+  const posts = await getBlogDocuments(site!);
+  const link = (doc: MarkdownDocument) =>
+    `- [${doc.title}](${new URL(`${doc.url}.md`, site).href})${doc.description ? `: ${doc.description}` : ''}`;
+
+  const text = [
+    '# Aprende Notion',
+    '',
+    '> Curso gratuito de Notion en español, con lecciones prácticas organizadas por temas, artículos y plantillas.',
+    '',
+    `El curso completo en un solo archivo: ${new URL('/llms-full.txt', site).href}`,
+    '',
+    '## Curso',
+    '',
+    ...lessons.map(link),
+    '',
+    '## Blog',
+    '',
+    ...posts.map(link),
+    '',
+  ].join('\n');
+
+  return new Response(text, { headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+};
@@ -0,0 +1,13 @@
+import type { APIRoute } from 'astro';
+import { renderOgImage } from '../lib/og-image';
+
+// Imagen Open Graph por defecto (páginas sin tarjeta propia)
+export const GET: APIRoute = async () => {
+  const image = await renderOgImage({
+    title: 'Aprende Notion desde cero',
+    emoji: '📘',
+    eyebrow: 'Aprende Notion',
+    detail: 'Curso gratis, tutoriales y plantillas',
+  });
+  return new Response(image, { headers: { 'Content-Type': 'image/png' } });
+};
@@ -0,0 +1,93 @@
+import type { APIRoute } from 'astro';
+import { getCollection } from 'astro:content';
+import {
+  getCourseLessons,
+  getCourseModules,
+  getLessonPositionInModule,
+  getModuleForLesson,
+  getMultiLessonModuleSlugs,
+  isSingleLessonModule,
+} from '../../lib/course-modules';
+import { renderOgImage, type OgCard, type OgSection } from '../../lib/og-image';
+import { DEFAULT_LOCALE, LOCALES, entryId, formatDate, t } from '../../lib/i18n';
+
+// Imagen Open Graph de cada lección, módulo, post y herramienta con página
+// (ver src/lib/og-image.ts). Las rutas son las mismas que las de las páginas.
+// Los módulos tienen tarjeta en cada idioma; una lección sin traducir usa la
+// de la lección en español.
+export async function getStaticPaths() {
+  const cards: { section: OgSection; slug: string; card: OgCard }[] = [];
+
+  for (const locale of LOCALES) {
+    const lessons = await getCourseLessons(locale);
+    const modules = await getCourseModules(locale);
+
+    for (const [index, mod] of modules.entries()) {
+      if (isSingleLessonModule(mod)) continue;
+      cards.push({
+        section: 'curso',
+        slug: entryId(mod.slug, locale),
+        card: {
+          title: mod.title,
+          emoji: mod.emoji,
+          eyebrow: t(locale, 'course.name'),
+          detail: t(locale, 'course.module', { n: index + 1, count: mod.lessonSlugs.length }),
+        },
+      });
+    }
+
+    // Las lecciones padre de un módulo son la página del módulo
+    const moduleSlugs = new Set(getMultiLessonModuleSlugs(modules));
+    for (const { slug, entry: lesson, translated } of lessons.values()) {
+      if (moduleSlugs.has(slug) || (!translated && locale !== DEFAULT_LOCALE)) continue;
+      const mod = getModuleForLesson(slug, modules);
+      const position = mod && !isSingleLessonModule(mod) ? getLessonPositionInModule(slug, mod) : -1;
+      cards.push({
+        section: 'curso',
+        slug: lesson.id,
+        card: {
+          title: lesson.data.title,
+          emoji: lesson.data.emoji,
+          eyebrow: `${t(locale, 'course.name')} · ${mod?.title ?? lesson.data.module}`,
+          detail: position >= 0 ? t(locale, 'course.position', { n: position + 1, count: mod!.lessonSlugs.length }) : undefined,
+        },
+      });
+    }
+  }
+
+  for (const post of await getCollection('blog')) {
+    cards.push({
+      section: 'blog',
+      slug: post.id,
+      card: {
+        title: post.data.title,
+        emoji: post.data.emoji,
+        eyebrow: `${t(post.data.locale, 'blog.title')} · ${post.data.category}`,
+        detail: formatDate(post.data.publishDate, post.data.locale),
+      },
+    });
+  }
+
+  // Los productos externos no tienen página
+  for (const product of await getCollection('herramientas', (p) => !p.data.external)) {
+    cards.push({
+      section: 'herramientas',
+      slug: product.id,
+      card: {
+        title: product.data.title,
+        emoji: '🧰',
+        eyebrow: 'Herramientas de Notion',
+        detail: product.data.price,
+      },
+    });
+  }
+
+  // Mismas rutas que ogImagePath(): /og/<section>/<slug>.png
+  return cards.map(({ section, slug, card }) => ({ params: { path: `${section}/${slug}` }, props: { card } }));
+}
+
+export const GET: APIRoute = async ({ props }) => {
+  return new Response(await renderOgImage(props.card as OgCard), {
+    headers: { 'Content-Type': 'image/png' },
+  });
+};
@@ -0,0 +1,10 @@
+import type { APIRoute } from 'astro';
+import { buildSearchIndex } from '../lib/search-index';
+
+// Índice del buscador de BaseLayout (ver src/lib/search.ts)
+export const GET: APIRoute = async () => {
+  const docs = await buildSearchIndex();
+  return new Response(JSON.stringify(docs), {
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+  });
+};